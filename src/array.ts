@@ -1,5 +1,7 @@
 import {Optional} from "./optional";
 import {NoSuchElementError} from "./errors";
+import {Ok, Result} from "./result";
+import {Either} from "./either";
 
 /**
  * Represents an array of elements with additional utility functions.
@@ -209,6 +211,55 @@ declare global {
          * // collection is now shuffled randomly, e.g., [3, 1, 5, 2, 4]
          */
         shuffle(): T[];
+
+        /**
+         * Maps each element to a Result and collects the values if all of them are Ok. The mapping stops at the first Err.
+         * @template U - The type of the success values.
+         * @template E - The type of the error values.
+         * @param {function(T, number): Result<U, E>} mapper - The function mapping an element and its index to a Result.
+         * @returns {Result<U[], E>} - An Ok with the mapped values, or the first Err.
+         * @example
+         * const numbers = mutableListOf("1", "2", "x").mapResult(value => isNaN(+value) ? error(`NaN: ${value}`) : ok(+value));
+         * // numbers is Err("NaN: x")
+         */
+        mapResult<U, E>(mapper: (element: T, index: number) => Result<U, E>): Result<U[], E>;
+
+        /**
+         * Keeps the values of the Ok elements of an array of Results, discarding the Errs.
+         * @template V - The type of the success values.
+         * @template E - The type of the error values.
+         * @returns {V[]} - The success values, in order.
+         * @example
+         * const values = [ok(1), error("failed"), ok(3)].filterOk();
+         * // values is [1, 3]
+         */
+        filterOk<V, E>(this: Array<Result<V, E>>): V[];
+
+        /**
+         * Maps each element to an Either and splits the results into left values and right values, in one pass.
+         * @template L - The type of the left values.
+         * @template R - The type of the right values.
+         * @param {function(T, number): Either<L, R>} mapper - The function mapping an element and its index to an Either.
+         * @returns {{lefts: L[], rights: R[]}} - The left values and the right values, in order.
+         * @example
+         * const {lefts, rights} = mutableListOf("1", "x", "3").partitionMap(value => isNaN(+value) ? left(value) : right(+value));
+         * // lefts is ["x"], rights is [1, 3]
+         */
+        partitionMap<L, R>(mapper: (element: T, index: number) => Either<L, R>): { lefts: L[], rights: R[] };
+
+        /**
+         * The asynchronous variant of partitionMap. The mapper can be synchronous or asynchronous, and all the elements
+         * are mapped concurrently.
+         * @template L - The type of the left values.
+         * @template R - The type of the right values.
+         * @param {function(T, number): Either<L, R> | PromiseLike<Either<L, R>>} mapper - The function mapping an element to an Either.
+         * @returns {Promise<{lefts: L[], rights: R[]}>} - A promise of the left values and the right values, in order.
+         * @example
+         * const {lefts, rights} = await userIds.partitionMapAsync(async id => (await exists(id)) ? right(id) : left(id));
+         */
+        partitionMapAsync<L, R>(
+            mapper: (element: T, index: number) => Either<L, R> | PromiseLike<Either<L, R>>
+        ): Promise<{ lefts: L[], rights: R[] }>;
     }
 }
 
@@ -395,4 +446,61 @@ Object.defineProperty(Array.prototype, 'shuffle', {
     configurable: false
 });
 
+Object.defineProperty(Array.prototype, 'mapResult', {
+    value: function <T, U, E>(
+        this: Array<T>,
+        mapper: (element: T, index: number) => Result<U, E>
+    ): Result<U[], E> {
+        const values: U[] = [];
+        for (let index = 0; index < this.length; index++) {
+            const result = mapper(this[index], index);
+            if (result.isErr()) {
+                return result as unknown as Result<U[], E>;
+            }
+            values.push(result.value);
+        }
+        return Ok.ok(values);
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
+
+Object.defineProperty(Array.prototype, 'filterOk', {
+    value: function <V, E>(this: Array<Result<V, E>>): V[] {
+        return Result.partition(this).oks;
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
 
+Object.defineProperty(Array.prototype, 'partitionMap', {
+    value: function <T, L, R>(
+        this: Array<T>,
+        mapper: (element: T, index: number) => Either<L, R>
+    ): { lefts: L[], rights: R[] } {
+        const lefts: L[] = [];
+        const rights: R[] = [];
+        this.forEach((element, index) => mapper(element, index).fold(
+            value => lefts.push(value),
+            value => rights.push(value)
+        ));
+        return {lefts, rights};
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
+
+Object.defineProperty(Array.prototype, 'partitionMapAsync', {
+    value: async function <T, L, R>(
+        this: Array<T>,
+        mapper: (element: T, index: number) => Either<L, R> | PromiseLike<Either<L, R>>
+    ): Promise<{ lefts: L[], rights: R[] }> {
+        return Either.partition(await Promise.all(this.map(mapper)));
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
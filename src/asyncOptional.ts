@@ -0,0 +1,172 @@
+import {Optional} from "./optional";
+
+/**
+ * The AsyncOptional class is the asynchronous counterpart of {@link Optional}. It wraps a promise of an Optional and
+ * allows chaining transformations with both synchronous and asynchronous callbacks, without having to await each step.
+ * An AsyncOptional is thenable, so awaiting it resolves to a plain Optional.
+ *
+ * @example
+ * const name = await Optional.ofAsync(userRepository.findById(42))
+ *     .filter(user => user.active)
+ *     .flatMap(user => profileService.find(user.profileId))
+ *     .map(profile => profile.displayName)
+ *     .orElse("Anonymous");
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ * */
+export class AsyncOptional<T> implements PromiseLike<Optional<T>> {
+
+    private constructor(private readonly promise: Promise<Optional<T>>) {
+    }
+
+    /**
+     * Creates an AsyncOptional from a value or a promise of a value. The resolved value is wrapped with
+     * {@link Optional.of}, so null or undefined values result in an empty AsyncOptional.
+     *
+     * @param value - The value, or promise of the value, to be wrapped.
+     * @return a new AsyncOptional resolving to an Optional of the specified value.
+     * */
+    static of<T>(value: T | undefined | null | PromiseLike<T | undefined | null>): AsyncOptional<T> {
+        return new AsyncOptional<T>(Promise.resolve(value).then(resolved => Optional.of<T>(resolved)));
+    }
+
+    /**
+     * Creates an AsyncOptional from an Optional or a promise of an Optional.
+     *
+     * @param optional - The Optional, or promise of the Optional, to be wrapped.
+     * @return a new AsyncOptional resolving to the specified Optional.
+     * */
+    static from<T>(optional: Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return new AsyncOptional<T>(Promise.resolve(optional));
+    }
+
+    /**
+     * Returns an empty AsyncOptional.
+     *
+     * @return an AsyncOptional resolving to an empty Optional.
+     * */
+    static empty<R>(): AsyncOptional<R> {
+        return AsyncOptional.from(Optional.empty<R>());
+    }
+
+    /**
+     * Transforms the value using the provided mapper function, which can be synchronous or asynchronous.
+     *
+     * @example
+     * const length = await Optional.ofAsync(Promise.resolve("Katxupa"))
+     *     .map(async value => value.length)
+     *     .orElse(0);
+     * console.log(length); // Output: 7
+     *
+     * @param mapper - A function that takes the current value and returns a new value or a promise of it.
+     * @return a new AsyncOptional with the mapped value, or empty if this AsyncOptional resolves to empty.
+     * */
+    map<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<U> {
+        return this.chain(async optional => optional.isPresent()
+            ? Optional.of<U>(await mapper(optional.get()))
+            : Optional.empty<U>());
+    }
+
+    /**
+     * Transforms the value using a mapper function that returns an Optional, a promise of an Optional or another
+     * AsyncOptional.
+     *
+     * @example
+     * const profile = await Optional.ofAsync(findUser(42))
+     *     .flatMap(user => Optional.ofAsync(findProfile(user.profileId)));
+     *
+     * @param mapper - A function that takes the current value and returns an Optional-like result.
+     * @return a new AsyncOptional with the mapped Optional, or empty if this AsyncOptional resolves to empty.
+     * */
+    flatMap<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U> {
+        return this.chain(async optional => optional.isPresent()
+            ? mapper(optional.get())
+            : Optional.empty<U>());
+    }
+
+    /**
+     * Filters the value using the provided predicate, which can be synchronous or asynchronous, with the same
+     * semantics as {@link Optional.filter}: the elements of arrays, Maps and Sets are filtered one by one, and any
+     * other value is kept only if it satisfies the predicate.
+     *
+     * @param predicate - A function that takes a value or an element and returns a boolean or a promise of it.
+     * @return a new AsyncOptional with the filtered value, or empty if it is filtered out.
+     * */
+    filter(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T> {
+        return this.chain(async optional => {
+            if (optional.isEmpty()) {
+                return optional;
+            }
+            const value: unknown = optional.get();
+            const elements = Array.isArray(value) || value instanceof Map || value instanceof Set
+                ? Array.from(value.values())
+                : [value];
+            const verdicts = await Promise.all(elements.map(element => predicate(element as T)));
+            let index = 0;
+            return optional.filter(() => verdicts[index++]);
+        });
+    }
+
+    /**
+     * Resolves to the value if present, or to the provided default value otherwise.
+     *
+     * @param defaultValue - The default value to return if this AsyncOptional resolves to empty.
+     * @return a promise of the value or the default value.
+     * */
+    async orElse<R>(defaultValue: R): Promise<T | R> {
+        return (await this.promise).orElse(defaultValue);
+    }
+
+    /**
+     * Resolves to the value if present, or to the value supplied by the provider otherwise.
+     *
+     * @param defaultValueProvider - A function that returns a default value or a promise of it.
+     * @return a promise of the value or the supplied default value.
+     * */
+    async orElseGet<R>(defaultValueProvider: () => R | PromiseLike<R>): Promise<T | R> {
+        const optional = await this.promise;
+        return optional.isPresent() ? optional.get() : defaultValueProvider();
+    }
+
+    /**
+     * Resolves to the value if present, or rejects with the error supplied by the provider otherwise.
+     *
+     * @param errorProvider - A function that returns the Error to reject with.
+     * @return a promise of the value.
+     * */
+    async orElseThrow(errorProvider: () => Error): Promise<T> {
+        return (await this.promise).orElseThrow(errorProvider);
+    }
+
+    /**
+     * Executes the provided consumer, which can be synchronous or asynchronous, if the value is present.
+     *
+     * @param consumer - A callback function that takes the value and performs an action.
+     * @return a promise that resolves once the consumer has completed.
+     * */
+    async ifPresent(consumer: (value: T) => void | PromiseLike<void>): Promise<void> {
+        const optional = await this.promise;
+        if (optional.isPresent()) {
+            await consumer(optional.get());
+        }
+    }
+
+    /**
+     * Resolves this AsyncOptional into a plain Optional, making it awaitable.
+     *
+     * @param onfulfilled - The callback to execute when the Optional is resolved.
+     * @param onrejected - The callback to execute when the underlying promise is rejected.
+     * @return a promise for the completion of whichever callback is executed.
+     * */
+    then<R1 = Optional<T>, R2 = never>(
+        onfulfilled?: ((value: Optional<T>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    private chain<U>(step: (optional: Optional<T>) => Promise<Optional<U>>): AsyncOptional<U> {
+        return new AsyncOptional<U>(this.promise.then(step));
+    }
+}
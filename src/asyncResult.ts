@@ -0,0 +1,224 @@
+import {Err, Ok, Result} from "./result";
+
+type ResultLike<T, E> = Result<T, E> | PromiseLike<Result<T, E>>;
+
+type OkValue<R> = R extends Ok<infer T, any> ? T : never;
+
+type ErrValue<R> = R extends Err<infer E, any> ? E : never;
+
+type AsyncResultValues<T extends readonly ResultLike<any, any>[]> = {
+    -readonly [K in keyof T]: OkValue<Awaited<T[K]>>
+};
+
+type AsyncResultErrors<T extends readonly ResultLike<any, any>[]> = ErrValue<Awaited<T[number]>>;
+
+/**
+ * The AsyncResult class is the asynchronous counterpart of {@link Result}. It wraps a promise of a Result and allows
+ * chaining operations with both synchronous and asynchronous callbacks, without awaiting and narrowing at each step.
+ * An AsyncResult is thenable, so awaiting it resolves to a plain Result.
+ *
+ * @example
+ * const name = await AsyncResult.fromPromise(fetchUser(42))
+ *     .andThen(user => user.active ? ok(user) : error("Inactive user"))
+ *     .map(async user => (await fetchProfile(user.profileId)).displayName)
+ *     .unwrapOr("Anonymous");
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ * */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+
+    private constructor(private readonly promise: Promise<Result<T, E>>) {
+    }
+
+    /**
+     * Creates an AsyncResult from a Result or a promise of a Result.
+     *
+     * @param result - The Result, or promise of the Result, to be wrapped.
+     * @return a new AsyncResult resolving to the specified Result.
+     * */
+    static from<T, E>(result: ResultLike<T, E>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(Promise.resolve(result));
+    }
+
+    /**
+     * Creates a successful AsyncResult from a value or a promise of a value.
+     *
+     * @param value - The value, or promise of the value.
+     * @return a new AsyncResult resolving to an Ok with the specified value.
+     * */
+    static ok<T, E = never>(value: T | PromiseLike<T>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(Promise.resolve(value).then(resolved => Ok.ok(resolved)));
+    }
+
+    /**
+     * Creates a failed AsyncResult from an error value.
+     *
+     * @param error - The error value.
+     * @return a new AsyncResult resolving to an Err with the specified error value.
+     * */
+    static error<E, T = never>(error: E): AsyncResult<T, E> {
+        return AsyncResult.from<T, E>(Err.error(error));
+    }
+
+    /**
+     * Creates an AsyncResult from a promise, resolving to an Ok with the resolved value, or to an Err with the
+     * rejection reason. See {@link Result.fromPromise}.
+     *
+     * @param promise - The promise to await.
+     * @param mapError - A function converting the rejection reason into the error value.
+     * @return a new AsyncResult resolving to the outcome of the promise.
+     * */
+    static fromPromise<T, E = Error>(
+        promise: PromiseLike<T>,
+        mapError?: (error: unknown) => E
+    ): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(Result.fromPromise(promise, mapError));
+    }
+
+    /**
+     * Combines several Results, promises of Results or AsyncResults into an AsyncResult of a tuple holding all their
+     * values. It resolves to the first Err as soon as one is found, without waiting for the others.
+     *
+     * @example
+     * const [user, orders] = await AsyncResult.all([loadUser(id), loadOrders(id)]).unwrapOr([undefined, []]);
+     *
+     * @param results - The Result-like objects to combine.
+     * @return an AsyncResult of the tuple of values if all of them succeed, or of the first Err otherwise.
+     * */
+    static all<T extends readonly ResultLike<any, any>[] | []>(
+        results: T
+    ): AsyncResult<AsyncResultValues<T>, AsyncResultErrors<T>> {
+        return new AsyncResult(new Promise((resolve, reject) => {
+            const values: unknown[] = new Array(results.length);
+            let pending = results.length;
+            if (pending === 0) {
+                resolve(Ok.ok(values as AsyncResultValues<T>));
+            }
+            (results as readonly ResultLike<unknown, any>[]).forEach((result, index) => Promise.resolve(result).then(settled => {
+                if (settled.isErr()) {
+                    resolve(settled as Err<AsyncResultErrors<T>, never>);
+                    return;
+                }
+                values[index] = settled.value;
+                if (--pending === 0) {
+                    resolve(Ok.ok(values as AsyncResultValues<T>));
+                }
+            }, reject));
+        }));
+    }
+
+    /**
+     * Resolves to the first Ok among several Results, promises of Results or AsyncResults, as soon as one is found.
+     * If all of them fail, it resolves to an Err with an AggregateError holding every error value, in order.
+     *
+     * @example
+     * const config = await AsyncResult.any([loadFromFile(), loadFromEnvironment()]);
+     *
+     * @param results - The Result-like objects to race.
+     * @return an AsyncResult of the first Ok, or of an Err with all the errors otherwise.
+     * */
+    static any<T extends readonly ResultLike<any, any>[] | []>(
+        results: T
+    ): AsyncResult<AsyncResultValues<T>[number], AggregateError> {
+        return new AsyncResult(new Promise((resolve, reject) => {
+            const errors: unknown[] = new Array(results.length);
+            let pending = results.length;
+            if (pending === 0) {
+                resolve(Err.error(new AggregateError(errors, "No Result succeeded")));
+            }
+            (results as readonly ResultLike<unknown, any>[]).forEach((result, index) => Promise.resolve(result).then(settled => {
+                if (settled.isOk()) {
+                    resolve(settled as Ok<AsyncResultValues<T>[number], never>);
+                    return;
+                }
+                errors[index] = settled.error;
+                if (--pending === 0) {
+                    resolve(Err.error(new AggregateError(errors, "No Result succeeded")));
+                }
+            }, reject));
+        }));
+    }
+
+    /**
+     * Maps the success value using the provided mapper function, which can be synchronous or asynchronous.
+     *
+     * @param mapper - A function that takes the success value and returns a new value or a promise of it.
+     * @return a new AsyncResult with the mapped value, or the same error.
+     * */
+    map<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+        return this.chain(async result => result.isOk()
+            ? Ok.ok(await mapper(result.value))
+            : result as unknown as Err<E, U>);
+    }
+
+    /**
+     * Maps the error value using the provided mapper function, which can be synchronous or asynchronous.
+     *
+     * @param mapper - A function that takes the error value and returns a new error value or a promise of it.
+     * @return a new AsyncResult with the same value, or the mapped error.
+     * */
+    mapErr<F>(mapper: (error: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+        return this.chain(async result => result.isErr()
+            ? Err.error(await mapper(result.error))
+            : result as unknown as Ok<T, F>);
+    }
+
+    /**
+     * Chains an operation that can fail, using a mapper function returning a Result, a promise of a Result or another
+     * AsyncResult.
+     *
+     * @example
+     * const order = await AsyncResult.fromPromise(loadCart(id))
+     *     .andThen(cart => cart.items.length > 0 ? ok(cart) : error("Empty cart"))
+     *     .andThen(cart => AsyncResult.fromPromise(checkout(cart)));
+     *
+     * @param mapper - A function that takes the success value and returns a Result-like object.
+     * @return a new AsyncResult with the Result returned by the mapper, or the same error.
+     * */
+    andThen<U, F = E>(mapper: (value: T) => ResultLike<U, F>): AsyncResult<U, E | F> {
+        return this.chain<U, E | F>(async result => result.isOk()
+            ? mapper(result.value)
+            : result as unknown as Err<E, U>);
+    }
+
+    /**
+     * Resolves to the result of the function matching the variant of the Result. The functions can be synchronous
+     * or asynchronous.
+     *
+     * @param cases - The functions to apply to the success value and to the error value.
+     * @return a promise of the value returned by the matching function.
+     * */
+    async match<R>(cases: { ok: (value: T) => R | PromiseLike<R>, err: (error: E) => R | PromiseLike<R> }): Promise<R> {
+        const result = await this.promise;
+        return result.isOk() ? cases.ok(result.value) : cases.err((result as Err<E, T>).error);
+    }
+
+    /**
+     * Resolves to the success value, or to the provided default value if the Result is an Err.
+     *
+     * @param defaultValue - The value to return if the Result is an Err.
+     * @return a promise of the success value or the default value.
+     * */
+    async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+        return (await this.promise).unwrapOr(defaultValue);
+    }
+
+    /**
+     * Resolves this AsyncResult into a plain Result, making it awaitable.
+     *
+     * @param onfulfilled - The callback to execute when the Result is resolved.
+     * @param onrejected - The callback to execute when the underlying promise is rejected.
+     * @return a promise for the completion of whichever callback is executed.
+     * */
+    then<R1 = Result<T, E>, R2 = never>(
+        onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    private chain<U, F>(step: (result: Result<T, E>) => Promise<Result<U, F>>): AsyncResult<U, F> {
+        return new AsyncResult<U, F>(this.promise.then(step));
+    }
+}
@@ -168,6 +168,44 @@ declare global {
          */
         compareTo(other: string): number
     }
+
+    interface Date {
+
+        /**
+         * Adds a compareTo method to the Date prototype, allowing for chronological comparisons with other dates.
+         *
+         * @method
+         * @memberof Date.prototype
+         * @param  other - The other date to compare.
+         * @returns {number} A negative value if the current date is before 'other',
+         *                   zero if they are equal, and a positive value if the current date is after 'other'.
+         *
+         * @example
+         * const date1 = new Date("2023-01-01");
+         * const date2 = new Date("2023-01-15");
+         * console.log(date1.compareTo(date2)); // Output: -1209600000
+         */
+        compareTo(other: Date): number
+    }
+
+    interface BigInt {
+
+        /**
+         * Adds a compareTo method to the BigInt prototype, allowing for comparisons with other bigints.
+         *
+         * @method
+         * @memberof BigInt.prototype
+         * @param  other - The other bigint to compare.
+         * @returns {number} -1 if the current bigint is less than 'other', 0 if they are equal,
+         *                   and 1 if the current bigint is greater than 'other'.
+         *
+         * @example
+         * const big1 = 10n ** 20n;
+         * const big2 = 10n ** 21n;
+         * console.log(big1.compareTo(big2)); // Output: -1
+         */
+        compareTo(other: bigint): number
+    }
 }
 
 // Extend the Number prototype
@@ -208,3 +246,29 @@ Object.defineProperty(Boolean.prototype, 'compareTo', {
     writable: false,
     configurable: false
 });
+
+// Extend the Date prototype
+Object.defineProperty(Date.prototype, 'compareTo', {
+    value: function <T>(this: Date, other: T): number {
+        if (!(other instanceof Date)) {
+            throw new Error('Comparison with non-date is not supported');
+        }
+        return this.getTime() - other.getTime();
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
+
+// Extend the BigInt prototype
+Object.defineProperty(BigInt.prototype, 'compareTo', {
+    value: function <T>(this: bigint, other: T): number {
+        if (typeof other !== 'bigint') {
+            throw new Error('Comparison with non-bigint is not supported');
+        }
+        return this < other ? -1 : this > other ? 1 : 0;
+    },
+    enumerable: false,
+    writable: false,
+    configurable: false
+});
@@ -1,3 +1,6 @@
+import {Err, Ok, Result} from "./result";
+import {Optional} from "./optional";
+
 /**
  * Represents a value that can be either of type L (left) or R (right).
  *
@@ -23,7 +26,7 @@
  * @since version 1.3.0
  * @author Manuel Santos <ney.br.santos@gmail.com>
  */
-export type Either<L, R> = Left<L> | Right<R>;
+export type Either<L, R> = Left<L, R> | Right<R, L>;
 
 abstract class Value<V> {
     protected constructor(readonly value: V) {
@@ -40,13 +43,133 @@ abstract class Value<V> {
 
 /**
  * Represents the left side of an Either (result type).
+ *
+ * Left and {@link Right} share the same API, so an {@link Either} can be chained without narrowing it first. The API
+ * is right-biased: map and flatMap transform the right value and leave a Left untouched.
+ *
  * @template L - The type of the left value.
+ * @template R - The type of the right value of the Either this Left belongs to.
  */
-export class Left<L> extends Value<L> {
+export class Left<L, R = never> extends Value<L> {
     constructor(readonly value: L) {
         super(value);
     }
 
+    /**
+     * Checks if this Either is a Left, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isLeft(): this is Left<L, R> {
+        return true;
+    }
+
+    /**
+     * Checks if this Either is a Right, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isRight(): this is Right<R, L> {
+        return false;
+    }
+
+    /**
+     * Maps the right value to a new value. Does nothing on a Left.
+     * @template U - The type of the new right value.
+     * @param {(value: R) => U} mapper - A function to transform the right value.
+     * @returns {Either<L, U>} - This Left.
+     */
+    map<U>(mapper: (value: R) => U): Either<L, U> {
+        return this as unknown as Left<L, U>;
+    }
+
+    /**
+     * Maps the right value to a new Either. Does nothing on a Left.
+     * @template U - The type of the right value of the new Either.
+     * @template M - The type of the left value of the new Either.
+     * @param {(value: R) => Either<M, U>} mapper - A function to transform the right value.
+     * @returns {Either<L | M, U>} - This Left.
+     */
+    flatMap<U, M = L>(mapper: (value: R) => Either<M, U>): Either<L | M, U> {
+        return this as unknown as Left<L, U>;
+    }
+
+    /**
+     * Maps the left value to a new value.
+     * @template M - The type of the new left value.
+     * @param {(value: L) => M} mapper - A function to transform the left value.
+     * @returns {Either<M, R>} - A new Left with the transformed value.
+     */
+    mapLeft<M>(mapper: (value: L) => M): Either<M, R> {
+        return new Left<M, R>(mapper(this.value));
+    }
+
+    /**
+     * Maps the left or the right value, depending on the side of the Either.
+     * @template M - The type of the new left value.
+     * @template U - The type of the new right value.
+     * @param {(value: L) => M} onLeft - A function to transform the left value.
+     * @param {(value: R) => U} onRight - A function to transform the right value.
+     * @returns {Either<M, U>} - A new Left with the transformed left value.
+     */
+    bimap<M, U>(onLeft: (value: L) => M, onRight: (value: R) => U): Either<M, U> {
+        return new Left<M, U>(onLeft(this.value));
+    }
+
+    /**
+     * Swaps the sides of the Either.
+     * @returns {Either<R, L>} - A Right with the left value.
+     */
+    swap(): Either<R, L> {
+        return new Right<L, R>(this.value);
+    }
+
+    /**
+     * Maps the left value to a new Either, allowing to recover from it.
+     * @template M - The type of the left value of the new Either.
+     * @template U - The type of the right value of the new Either.
+     * @param {(value: L) => Either<M, U>} mapper - A function to recover from the left value.
+     * @returns {Either<M, R | U>} - The Either returned by the mapper.
+     */
+    orElse<M, U>(mapper: (value: L) => Either<M, U>): Either<M, R | U> {
+        return mapper(this.value);
+    }
+
+    /**
+     * Retrieves the right value, or the default value if the Either is a Left.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Either is a Left.
+     * @returns {R | U} - The default value.
+     */
+    getOrElse<U>(defaultValue: U): R | U {
+        return defaultValue;
+    }
+
+    /**
+     * Applies the function matching the side of the Either.
+     * @template U - The type of the result.
+     * @param {(value: L) => U} onLeft - The function to apply to a left value.
+     * @param {(value: R) => U} onRight - The function to apply to a right value.
+     * @returns {U} - The value returned by onLeft.
+     */
+    fold<U>(onLeft: (value: L) => U, onRight: (value: R) => U): U {
+        return onLeft(this.value);
+    }
+
+    /**
+     * Converts the Either into a Result, with the left value as the error value.
+     * @returns {Result<R, L>} - An Err with the left value.
+     */
+    toResult(): Result<R, L> {
+        return new Err<L, R>(this.value);
+    }
+
+    /**
+     * Converts the Either into an Optional, discarding the left value.
+     * @returns {Optional<R>} - An empty Optional.
+     */
+    toOptional(): Optional<R> {
+        return Optional.empty();
+    }
+
     /**
      * Creates a Left instance with the specified left value.
      * @template L - The type of the left value.
@@ -56,17 +179,155 @@ export class Left<L> extends Value<L> {
     static left<L>(value: L): Left<L> {
         return new Left(value);
     }
+
+    /**
+     * Short-circuits {@link Either.gen} and {@link Either.genAsync} when used with `yield*`.
+     * @returns {Generator<Left<L>, never, unknown>} - A generator that yields this Left to the enclosing do-notation.
+     */
+    *[Symbol.iterator](): Generator<Left<L>, never, unknown> {
+        return (yield this as unknown as Left<L>) as never;
+    }
+
+    /**
+     * Short-circuits {@link Either.gen} and {@link Either.genAsync} when used with `yield*`, in the same way as
+     * {@link Optional.bind}.
+     * @returns {Generator<Left<L>, never, unknown>} - A generator that yields this Left to the enclosing do-notation.
+     */
+    bind(): Generator<Left<L>, never, unknown> {
+        return this[Symbol.iterator]();
+    }
 }
 
 /**
  * Represents the right side of an Either (result type).
+ *
+ * Right and {@link Left} share the same API, so an {@link Either} can be chained without narrowing it first. The API
+ * is right-biased: map and flatMap transform the right value and leave a Left untouched.
+ *
  * @template R - The type of the right value.
+ * @template L - The type of the left value of the Either this Right belongs to.
  */
-export class Right<R> extends Value<R> {
+export class Right<R, L = never> extends Value<R> {
     constructor(readonly value: R) {
         super(value);
     }
 
+    /**
+     * Checks if this Either is a Left, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isLeft(): this is Left<L, R> {
+        return false;
+    }
+
+    /**
+     * Checks if this Either is a Right, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isRight(): this is Right<R, L> {
+        return true;
+    }
+
+    /**
+     * Maps the right value to a new value.
+     * @template U - The type of the new right value.
+     * @param {(value: R) => U} mapper - A function to transform the right value.
+     * @returns {Either<L, U>} - A new Right with the transformed value.
+     */
+    map<U>(mapper: (value: R) => U): Either<L, U> {
+        return new Right<U, L>(mapper(this.value));
+    }
+
+    /**
+     * Maps the right value to a new Either.
+     * @template U - The type of the right value of the new Either.
+     * @template M - The type of the left value of the new Either.
+     * @param {(value: R) => Either<M, U>} mapper - A function to transform the right value.
+     * @returns {Either<L | M, U>} - The Either returned by the mapper.
+     */
+    flatMap<U, M = L>(mapper: (value: R) => Either<M, U>): Either<L | M, U> {
+        return mapper(this.value);
+    }
+
+    /**
+     * Maps the left value to a new value. Does nothing on a Right.
+     * @template M - The type of the new left value.
+     * @param {(value: L) => M} mapper - A function to transform the left value.
+     * @returns {Either<M, R>} - This Right.
+     */
+    mapLeft<M>(mapper: (value: L) => M): Either<M, R> {
+        return this as unknown as Right<R, M>;
+    }
+
+    /**
+     * Maps the left or the right value, depending on the side of the Either.
+     * @template M - The type of the new left value.
+     * @template U - The type of the new right value.
+     * @param {(value: L) => M} onLeft - A function to transform the left value.
+     * @param {(value: R) => U} onRight - A function to transform the right value.
+     * @returns {Either<M, U>} - A new Right with the transformed right value.
+     */
+    bimap<M, U>(onLeft: (value: L) => M, onRight: (value: R) => U): Either<M, U> {
+        return new Right<U, M>(onRight(this.value));
+    }
+
+    /**
+     * Swaps the sides of the Either.
+     * @returns {Either<R, L>} - A Left with the right value.
+     */
+    swap(): Either<R, L> {
+        return new Left<R, L>(this.value);
+    }
+
+    /**
+     * Maps the left value to a new Either, allowing to recover from it. Does nothing on a Right.
+     * @template M - The type of the left value of the new Either.
+     * @template U - The type of the right value of the new Either.
+     * @param {(value: L) => Either<M, U>} mapper - A function to recover from the left value.
+     * @returns {Either<M, R | U>} - This Right.
+     */
+    orElse<M, U>(mapper: (value: L) => Either<M, U>): Either<M, R | U> {
+        return this as unknown as Right<R, M>;
+    }
+
+    /**
+     * Retrieves the right value, or the default value if the Either is a Left.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Either is a Left.
+     * @returns {R | U} - The right value.
+     */
+    getOrElse<U>(defaultValue: U): R | U {
+        return this.value;
+    }
+
+    /**
+     * Applies the function matching the side of the Either.
+     * @template U - The type of the result.
+     * @param {(value: L) => U} onLeft - The function to apply to a left value.
+     * @param {(value: R) => U} onRight - The function to apply to a right value.
+     * @returns {U} - The value returned by onRight.
+     */
+    fold<U>(onLeft: (value: L) => U, onRight: (value: R) => U): U {
+        return onRight(this.value);
+    }
+
+    /**
+     * Converts the Either into a Result, with the left value as the error value.
+     * @returns {Result<R, L>} - An Ok with the right value.
+     */
+    toResult(): Result<R, L> {
+        return new Ok<R, L>(this.value);
+    }
+
+    /**
+     * Converts the Either into an Optional with the right value. As with {@link Optional.of}, a value considered
+     * absent by the emptiness policy, such as a blank string or an empty array, results in an empty Optional.
+     * @returns {Optional<R>} - An Optional containing the right value.
+     */
+    toOptional(): Optional<R> {
+        return Optional.of(this.value);
+    }
+
     /**
      * Creates a Right instance with the specified right value.
      * @template R - The type of the right value.
@@ -76,8 +337,235 @@ export class Right<R> extends Value<R> {
     static right<R>(value: R): Right<R> {
         return new Right(value);
     }
+
+    /**
+     * Unwraps the right value inside {@link Either.gen} and {@link Either.genAsync} when used with `yield*`.
+     * @returns {Generator<never, R, unknown>} - A generator that immediately returns the right value.
+     */
+    *[Symbol.iterator](): Generator<never, R, unknown> {
+        return this.value;
+    }
+
+    /**
+     * Unwraps the right value inside {@link Either.gen} and {@link Either.genAsync} when used with `yield*`, in the
+     * same way as {@link Optional.bind}.
+     * @returns {Generator<never, R, unknown>} - A generator that immediately returns the right value.
+     */
+    bind(): Generator<never, R, unknown> {
+        return this[Symbol.iterator]();
+    }
 }
 
+type LeftOf<Y> = Y extends Left<infer L, any> ? L : never;
+
+/**
+ * Companion object of the Either type, providing the generator-based do-notation and the creation of Eithers from
+ * throwing code and nullable values.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export const Either = {
+
+    /**
+     * Combines several Eithers without nesting. Each `yield*` unwraps the value of a Right, and the first Left
+     * short-circuits the whole computation. Eithers can be unwrapped with `yield*` on the Either itself or on its
+     * `bind()` method, which is the form shared with {@link Optional.gen} and {@link Result.gen}.
+     *
+     * @template Y - The type of the Left values that can be yielded.
+     * @template R - The type of the returned value.
+     * @param {() => Generator<Y, R, any>} body - A generator function that unwraps Eithers with `yield*`.
+     * @returns {Either<LeftOf<Y>, R>} - A Right with the returned value, or the first Left that was unwrapped.
+     *
+     * @example
+     * const total = Either.gen(function* () {
+     *     const price = yield* findPrice(productId).bind();
+     *     const quantity = yield* validateQuantity(input).bind();
+     *     return price * quantity;
+     * });
+     */
+    gen<Y extends Left<any>, R>(body: () => Generator<Y, R, any>): Either<LeftOf<Y>, R> {
+        const iterator = body();
+        const state = iterator.next();
+        if (!state.done) {
+            iterator.return(undefined as R);
+            return state.value as Y;
+        }
+        return Right.right(state.value as R);
+    },
+
+    /**
+     * The asynchronous variant of {@link Either.gen}, taking an async generator function as body.
+     *
+     * @template Y - The type of the Left values that can be yielded.
+     * @template R - The type of the returned value.
+     * @param {() => AsyncGenerator<Y, R, any>} body - An async generator function that unwraps Eithers with `yield*`.
+     * @returns {Promise<Either<LeftOf<Y>, R>>} - A promise of a Right with the returned value, or of the first Left.
+     */
+    async genAsync<Y extends Left<any>, R>(body: () => AsyncGenerator<Y, R, any>): Promise<Either<LeftOf<Y>, R>> {
+        const iterator = body();
+        const state = await iterator.next();
+        if (!state.done) {
+            await iterator.return(undefined as R);
+            return state.value as Y;
+        }
+        return Right.right(state.value as R);
+    },
+
+    /**
+     * Runs a function and captures its outcome: a Right with the returned value, or a Left with the thrown exception.
+     * Thrown values that are not Errors are normalized into Errors, as in {@link Result.try}.
+     *
+     * @template R - The type of the returned value.
+     * @template L - The type of the left value.
+     * @param {() => R} fn - The function to run.
+     * @param {(error: unknown) => L} [onError] - A function converting the thrown exception into the left value.
+     * @returns {Either<L, R>} - A Right with the returned value, or a Left with the (mapped) exception.
+     *
+     * @example
+     * const config = Either.tryCatch(() => JSON.parse(text), e => `Invalid config: ${e}`);
+     */
+    tryCatch<R, L = Error>(fn: () => R, onError?: (error: unknown) => L): Either<L, R> {
+        return Result.try(fn, onError).match<Either<L, R>>({
+            ok: value => new Right<R, L>(value),
+            err: error => new Left<L, R>(error)
+        });
+    },
+
+    /**
+     * Creates an Either from a value that might be null or undefined.
+     *
+     * @template L - The type of the left value.
+     * @template R - The type of the value.
+     * @param {R | null | undefined} value - The value to wrap.
+     * @param {() => L} leftProvider - A function returning the left value if the value is null or undefined.
+     * @returns {Either<L, R>} - A Right with the value, or a Left with the provided value.
+     *
+     * @example
+     * const port = Either.fromNullable(process.env.PORT, () => "PORT is not defined");
+     */
+    fromNullable<L, R>(value: R | null | undefined, leftProvider: () => L): Either<L, R> {
+        return value === null || value === undefined ? new Left<L, R>(leftProvider()) : new Right<R, L>(value);
+    },
+
+    /**
+     * Splits several Eithers into their left values and their right values, keeping their order.
+     *
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly Either<L, R>[]} eithers - The Eithers to split.
+     * @returns {{lefts: L[], rights: R[]}} - The left values and the right values.
+     *
+     * @example
+     * const {lefts, rights} = Either.partition(rows.map(parseRow));
+     * console.log(`${rights.length} imported, ${lefts.length} rejected`);
+     */
+    partition<L, R>(eithers: readonly Either<L, R>[]): { lefts: L[], rights: R[] } {
+        const lefts: L[] = [];
+        const rights: R[] = [];
+        for (const either of eithers) {
+            if (either.isRight()) {
+                rights.push(either.value);
+            } else {
+                lefts.push((either as Left<L, R>).value);
+            }
+        }
+        return {lefts, rights};
+    },
+
+    /**
+     * Extracts the left values of several Eithers, in order.
+     *
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly Either<L, R>[]} eithers - The Eithers to extract from.
+     * @returns {L[]} - The left values.
+     */
+    lefts<L, R>(eithers: readonly Either<L, R>[]): L[] {
+        return Either.partition(eithers).lefts;
+    },
+
+    /**
+     * Extracts the right values of several Eithers, in order.
+     *
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly Either<L, R>[]} eithers - The Eithers to extract from.
+     * @returns {R[]} - The right values.
+     */
+    rights<L, R>(eithers: readonly Either<L, R>[]): R[] {
+        return Either.partition(eithers).rights;
+    },
+
+    /**
+     * Turns several Eithers into an Either of all their right values, or the first Left.
+     *
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly Either<L, R>[]} eithers - The Eithers to combine.
+     * @returns {Either<L, R[]>} - A Right with all the right values, or the first Left.
+     */
+    sequence<L, R>(eithers: readonly Either<L, R>[]): Either<L, R[]> {
+        return Either.traverse(eithers, either => either);
+    },
+
+    /**
+     * Maps every item through a function returning an Either, and collects the right values if all of them are
+     * Rights. The mapping stops at the first Left.
+     *
+     * @template A - The type of the items.
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly A[]} items - The items to map.
+     * @param {(item: A, index: number) => Either<L, R>} mapper - A function mapping an item and its index to an Either.
+     * @returns {Either<L, R[]>} - A Right with the mapped values, or the first Left.
+     *
+     * @example
+     * const ids = Either.traverse(["1", "2", "x"], parseId); // Left("Invalid id: x")
+     */
+    traverse<A, L, R>(items: readonly A[], mapper: (item: A, index: number) => Either<L, R>): Either<L, R[]> {
+        const rights: R[] = [];
+        for (let index = 0; index < items.length; index++) {
+            const either = mapper(items[index], index);
+            if (either.isLeft()) {
+                return new Left<L, R[]>(either.value);
+            }
+            rights.push((either as Right<R, L>).value);
+        }
+        return new Right<R[], L>(rights);
+    },
+
+    /**
+     * The asynchronous variant of {@link Either.sequence}, waiting for Eithers or promises of Eithers.
+     *
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly (Either<L, R> | PromiseLike<Either<L, R>>)[]} eithers - The Eithers to combine.
+     * @returns {Promise<Either<L, R[]>>} - A promise of a Right with all the right values, or of the first Left.
+     */
+    async sequenceAsync<L, R>(eithers: readonly (Either<L, R> | PromiseLike<Either<L, R>>)[]): Promise<Either<L, R[]>> {
+        return Either.sequence(await Promise.all(eithers));
+    },
+
+    /**
+     * The asynchronous variant of {@link Either.traverse}. The mapper can be synchronous or asynchronous, and all the
+     * items are mapped concurrently.
+     *
+     * @template A - The type of the items.
+     * @template L - The type of the left values.
+     * @template R - The type of the right values.
+     * @param {readonly A[]} items - The items to map.
+     * @param {(item: A, index: number) => Either<L, R> | PromiseLike<Either<L, R>>} mapper - A function mapping an item to an Either.
+     * @returns {Promise<Either<L, R[]>>} - A promise of a Right with the mapped values, or of the first Left.
+     */
+    async traverseAsync<A, L, R>(
+        items: readonly A[],
+        mapper: (item: A, index: number) => Either<L, R> | PromiseLike<Either<L, R>>
+    ): Promise<Either<L, R[]>> {
+        return Either.sequenceAsync(items.map(mapper));
+    }
+};
+
 declare global {
 
     /**
@@ -125,9 +613,5 @@ _global.fold = function fold<L, R, U>(
     onLeft: (leftValue: L) => U,
     onRight: (rightValue: R) => U
 ): U {
-    if (either instanceof Left) {
-        return onLeft(either.get());
-    } else {
-        return onRight(either.get());
-    }
+    return either.fold(onLeft, onRight);
 }
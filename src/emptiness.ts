@@ -0,0 +1,86 @@
+/**
+ * Interface representing a policy that decides whether a value is considered absent when wrapped in an
+ * {@link Optional}. Null and undefined are always absent, regardless of the policy.
+ *
+ * @interface EmptinessPolicy
+ *
+ * @example
+ * const zeroIsEmpty: EmptinessPolicy = value => value === 0;
+ * console.log(Optional.of(0, {emptyWhen: zeroIsEmpty}).isEmpty()); // Output: true
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export interface EmptinessPolicy {
+    /**
+     * Checks if a value is considered absent.
+     *
+     * @param {unknown} value - The value to check.
+     * @returns {boolean} True if the value is considered absent, false otherwise.
+     */
+    (value: unknown): boolean;
+}
+
+/**
+ * The Emptiness class provides the built-in {@link EmptinessPolicy} functions used by {@link Optional.of}.
+ *
+ * @example
+ * Optional.of(NaN, {emptyWhen: Emptiness.nan}).isEmpty(); // true
+ * Optional.of(new Date("nope"), {emptyWhen: [Emptiness.invalidDate, Emptiness.nan]}).isEmpty(); // true
+ * Optional.ofNonEmpty(""); // empty, since it uses Emptiness.strict
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class Emptiness {
+
+    /**
+     * Considers null and undefined as absent.
+     */
+    static readonly nullish: EmptinessPolicy = value => value === undefined || value === null;
+
+    /**
+     * Considers strings that are empty or only contain whitespace as absent.
+     */
+    static readonly blank: EmptinessPolicy = value => typeof value === "string" && value.trim() === "";
+
+    /**
+     * Considers NaN as absent.
+     */
+    static readonly nan: EmptinessPolicy = value => typeof value === "number" && Number.isNaN(value);
+
+    /**
+     * Considers arrays, Maps and Sets without elements as absent.
+     */
+    static readonly emptyCollection: EmptinessPolicy = value => {
+        if (value instanceof Map || value instanceof Set) {
+            return value.size === 0;
+        }
+        return Array.isArray(value) && value.length === 0;
+    };
+
+    /**
+     * Considers Dates that do not represent a valid time (`Invalid Date`) as absent.
+     */
+    static readonly invalidDate: EmptinessPolicy = value => value instanceof Date && Number.isNaN(value.getTime());
+
+    /**
+     * The default policy of {@link Optional.of}: null, undefined, blank strings and empty collections are absent.
+     */
+    static readonly standard: EmptinessPolicy = Emptiness.any(Emptiness.nullish, Emptiness.blank, Emptiness.emptyCollection);
+
+    /**
+     * The policy of {@link Optional.ofNonEmpty}: every built-in policy applies.
+     */
+    static readonly strict: EmptinessPolicy = Emptiness.any(Emptiness.standard, Emptiness.nan, Emptiness.invalidDate);
+
+    /**
+     * Combines several policies into one that considers a value absent if any of them does.
+     *
+     * @param {EmptinessPolicy[]} policies - The policies to combine.
+     * @returns {EmptinessPolicy} The combined policy.
+     */
+    static any(...policies: EmptinessPolicy[]): EmptinessPolicy {
+        return value => policies.some(policy => policy(value));
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * Interface representing an object that defines its own notion of equality with another object of the same type.
+ *
+ * @interface Equatable
+ * @template T - The type of objects being compared.
+ *
+ * @example
+ * class Money implements Equatable<Money> {
+ *     constructor(readonly amount: number, readonly currency: string) {}
+ *
+ *     equals(other: Money): boolean {
+ *         return this.amount === other.amount && this.currency === other.currency;
+ *     }
+ * }
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export interface Equatable<T> {
+    /**
+     * Checks if this object is equal to another object of the same type.
+     *
+     * @param {T} other - The object to compare with.
+     * @returns {boolean} True if both objects are equal, false otherwise.
+     */
+    equals(other: T): boolean;
+}
+
+/**
+ * Interface representing an equality function that can be used to compare two objects.
+ *
+ * @interface InlineEquality
+ * @template T - The type of objects being compared.
+ *
+ * @example
+ * const sameId: InlineEquality<User> = (a, b) => a.id === b.id;
+ * console.log(sameId({id: 1, name: "Manuel"}, {id: 1, name: "Manel"})); // Output: true
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export interface InlineEquality<T> {
+    /**
+     * Compares two objects of the same type.
+     *
+     * @param {T} a - The first object to compare.
+     * @param {T} b - The second object to compare.
+     * @returns {boolean} True if both objects are equal, false otherwise.
+     */
+    (a: T, b: T): boolean;
+}
+
+/**
+ * The Equality class provides the default equality protocol of the library. Two values are equal when:
+ * - they are the same value (NaN is equal to NaN);
+ * - they share the same prototype and the first one implements {@link Equatable} and considers them equal
+ *   (e.g. {@link Duration.equals});
+ * - they are Dates with the same time;
+ * - they are arrays, Maps or Sets with structurally equal elements;
+ * - they are objects with the same prototype and structurally equal own enumerable properties.
+ *
+ * @example
+ * Equality.equals({a: [1, 2]}, {a: [1, 2]}); // true
+ * Equality.equals(new Date(0), new Date(0)); // true
+ * Equality.equals(Duration.hours(1), Duration.minutes(60)); // true
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class Equality {
+
+    /**
+     * Checks if two values are equal according to the default equality protocol.
+     *
+     * @param {unknown} a - The first value to compare.
+     * @param {unknown} b - The second value to compare.
+     * @returns {boolean} True if both values are equal, false otherwise.
+     */
+    static equals(a: unknown, b: unknown): boolean {
+        return Equality.deepEquals(a, b, new WeakMap());
+    }
+
+    /**
+     * Compares two values, keeping track of the pairs of objects currently being compared. A pair that is reached again
+     * through a cycle is assumed to be equal, so self-referencing values are compared without overflowing the stack.
+     */
+    private static deepEquals(a: unknown, b: unknown, visited: WeakMap<object, WeakSet<object>>): boolean {
+        if (a === b || (a !== a && b !== b)) {
+            return true;
+        }
+        if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+            return false;
+        }
+        if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+            return false;
+        }
+        if (Equality.isEquatable(a)) {
+            return a.equals(b);
+        }
+        if (a instanceof Date) {
+            return Equality.deepEquals(a.getTime(), (b as Date).getTime(), visited);
+        }
+        const pairs = visited.get(a) ?? new WeakSet<object>();
+        if (pairs.has(b)) {
+            return true;
+        }
+        visited.set(a, pairs.add(b));
+        try {
+            if (Array.isArray(a)) {
+                return Equality.arrayEquals(a, b as unknown[], visited);
+            }
+            if (a instanceof Map) {
+                return Equality.mapEquals(a, b as Map<unknown, unknown>, visited);
+            }
+            if (a instanceof Set) {
+                return Equality.setEquals(a, b as Set<unknown>, visited);
+            }
+            return Equality.objectEquals(a as Record<string, unknown>, b as Record<string, unknown>, visited);
+        } finally {
+            pairs.delete(b);
+        }
+    }
+
+    private static isEquatable(value: object): value is Equatable<unknown> {
+        return typeof (value as Partial<Equatable<unknown>>).equals === "function";
+    }
+
+    private static arrayEquals(a: unknown[], b: unknown[], visited: WeakMap<object, WeakSet<object>>): boolean {
+        return a.length === b.length && a.every((element, index) => Equality.deepEquals(element, b[index], visited));
+    }
+
+    private static mapEquals(a: Map<unknown, unknown>, b: Map<unknown, unknown>, visited: WeakMap<object, WeakSet<object>>): boolean {
+        if (a.size !== b.size) {
+            return false;
+        }
+        for (const [key, value] of a) {
+            if (!b.has(key) || !Equality.deepEquals(value, b.get(key), visited)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private static setEquals(a: Set<unknown>, b: Set<unknown>, visited: WeakMap<object, WeakSet<object>>): boolean {
+        if (a.size !== b.size) {
+            return false;
+        }
+        const unmatched = Array.from(b).filter(other => !a.has(other));
+        for (const element of a) {
+            if (b.has(element)) {
+                continue;
+            }
+            const index = unmatched.findIndex(other => Equality.deepEquals(element, other, visited));
+            if (index === -1) {
+                return false;
+            }
+            unmatched.splice(index, 1);
+        }
+        return true;
+    }
+
+    private static objectEquals(a: Record<string, unknown>, b: Record<string, unknown>, visited: WeakMap<object, WeakSet<object>>): boolean {
+        const keys = Object.keys(a);
+        if (keys.length !== Object.keys(b).length) {
+            return false;
+        }
+        return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && Equality.deepEquals(a[key], b[key], visited));
+    }
+}
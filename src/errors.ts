@@ -8,3 +8,71 @@ export class NoSuchElementError extends Error {
     }
 }
 
+
+/**
+ * Base class of tagged errors, which carry a `_tag` discriminant so that unions of domain errors can be told apart and
+ * handled exhaustively with {@link Ok.matchError} and {@link Ok.catchTag}. Instances are usually created with the
+ * {@link taggedError} global function.
+ *
+ * @template Tag - The literal type of the tag.
+ *
+ * @example
+ * type NotFound = Tagged<"NotFound", { id: string }>;
+ * const notFound: NotFound = taggedError("NotFound", {id: "42"});
+ * console.log(notFound._tag, notFound.id); // Output: NotFound 42
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class TaggedError<Tag extends string> extends Error {
+    constructor(readonly _tag: Tag, message: string = _tag) {
+        super(message);
+        this.name = _tag;
+    }
+
+    /**
+     * Creates a tagged error with the specified tag and properties. A `message` property, if any, becomes the error
+     * message; otherwise the tag is used.
+     *
+     * @template Tag - The literal type of the tag.
+     * @template P - The type of the properties.
+     * @param {Tag} tag - The tag of the error.
+     * @param {P} [props] - The properties of the error.
+     * @returns {Tagged<Tag, P>} - A tagged error holding the properties.
+     */
+    static of<Tag extends string, P extends object = {}>(tag: Tag, props?: P): Tagged<Tag, P> {
+        const message = (props as { message?: unknown } | undefined)?.message;
+        return Object.assign(new TaggedError(tag, typeof message === "string" ? message : tag), props) as Tagged<Tag, P>;
+    }
+}
+
+/**
+ * The type of a tagged error with the specified tag and properties.
+ *
+ * @template Tag - The literal type of the tag.
+ * @template P - The type of the properties.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type Tagged<Tag extends string, P extends object = {}> = TaggedError<Tag> & Readonly<P>;
+
+declare global {
+
+    /**
+     * Creates a tagged error with the specified tag and properties.
+     * @template Tag - The literal type of the tag.
+     * @template P - The type of the properties.
+     * @param {Tag} tag - The tag of the error.
+     * @param {P} [props] - The properties of the error.
+     * @returns {Tagged<Tag, P>} - A tagged error holding the properties.
+     */
+    function taggedError<Tag extends string, P extends object = {}>(tag: Tag, props?: P): Tagged<Tag, P>;
+}
+
+// Global extensions
+const _global = typeof window !== 'undefined' ? window : globalThis;
+
+_global.taggedError = function <Tag extends string, P extends object = {}>(tag: Tag, props?: P): Tagged<Tag, P> {
+    return TaggedError.of(tag, props);
+}
@@ -1,10 +1,19 @@
 export * from './scope';
 export * from './optional';
+export * from './asyncOptional';
+export * from './lazyOptional';
 export * from './range';
+export * from './progression';
+export * from './rangeSet';
 export * from './duration';
 export * from './result';
+export * from './asyncResult';
 export * from './either';
+export * from './validated';
+export * from './ior';
 export * from './compare';
+export * from './equality';
+export * from './emptiness';
 export * from './reducer';
 export * from './errors';
 export * from './array';
@@ -0,0 +1,440 @@
+import {Err, Ok, Result} from "./result";
+import {Either, Left, Right} from "./either";
+
+/**
+ * Represents a value that can be a left value of type L, a right value of type R, or both at the same time (inclusive
+ * or). Unlike {@link Either}, it can hold a successful value together with issues, such as the warnings collected by a
+ * job that still completed.
+ *
+ * @template L - The type of the left value.
+ * @template R - The type of the right value.
+ *
+ * @example
+ * const imported = Ior.both(["Row 3: missing email"], rows);
+ * const saved = imported.flatMap(rows => save(rows), (first, second) => [...first, ...second]);
+ *
+ * saved.fold(
+ *     errors => console.log(`Import failed: ${errors}`),
+ *     count => console.log(`Imported ${count} rows`),
+ *     (warnings, count) => console.log(`Imported ${count} rows with warnings: ${warnings}`)
+ * );
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type Ior<L, R> = IorLeft<L, R> | IorRight<R, L> | IorBoth<L, R>;
+
+/**
+ * Alias of {@link Ior}, under the name it has in other libraries.
+ *
+ * @template L - The type of the left value.
+ * @template R - The type of the right value.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type These<L, R> = Ior<L, R>;
+
+/**
+ * Decides which side an {@link IorBoth} keeps when it is converted into an {@link Either} or a {@link Result}:
+ * `"right"` keeps the right value and discards the left one, while `"left"` treats the left value as a failure.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type IorBothPolicy = "left" | "right";
+
+/**
+ * Represents the left case of an Ior.
+ *
+ * IorLeft, {@link IorRight} and {@link IorBoth} share the same API, so an {@link Ior} can be chained without narrowing
+ * it first. The API is right-biased: map and flatMap transform the right value and leave an IorLeft untouched.
+ *
+ * @template L - The type of the left value.
+ * @template R - The type of the right value of the Ior this IorLeft belongs to.
+ */
+export class IorLeft<L, R = never> {
+    constructor(readonly left: L) {
+    }
+
+    /**
+     * Checks if this Ior only holds a left value, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isLeft(): this is IorLeft<L, R> {
+        return true;
+    }
+
+    /**
+     * Checks if this Ior only holds a right value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isRight(): this is IorRight<R, L> {
+        return false;
+    }
+
+    /**
+     * Checks if this Ior holds both a left and a right value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isBoth(): this is IorBoth<L, R> {
+        return false;
+    }
+
+    /**
+     * Maps the right value to a new value. Does nothing on an IorLeft.
+     * @template U - The type of the new right value.
+     * @param {(value: R) => U} mapper - A function to transform the right value.
+     * @returns {Ior<L, U>} - This IorLeft.
+     */
+    map<U>(mapper: (value: R) => U): Ior<L, U> {
+        return this as unknown as IorLeft<L, U>;
+    }
+
+    /**
+     * Maps the left value to a new value.
+     * @template M - The type of the new left value.
+     * @param {(value: L) => M} mapper - A function to transform the left value.
+     * @returns {Ior<M, R>} - A new IorLeft with the transformed value.
+     */
+    mapLeft<M>(mapper: (value: L) => M): Ior<M, R> {
+        return new IorLeft<M, R>(mapper(this.left));
+    }
+
+    /**
+     * Maps the right value to a new Ior, combining the left values of both. Does nothing on an IorLeft.
+     * @template U - The type of the right value of the new Ior.
+     * @param {(value: R) => Ior<L, U>} mapper - A function to transform the right value.
+     * @param {(first: L, second: L) => L} combine - A function combining the left value of this Ior with the left
+     * value of the new one.
+     * @returns {Ior<L, U>} - This IorLeft.
+     */
+    flatMap<U>(mapper: (value: R) => Ior<L, U>, combine: (first: L, second: L) => L): Ior<L, U> {
+        return this as unknown as IorLeft<L, U>;
+    }
+
+    /**
+     * Applies the function matching the case of the Ior.
+     * @template U - The type of the result.
+     * @param {(left: L) => U} onLeft - The function to apply to a left value.
+     * @param {(right: R) => U} onRight - The function to apply to a right value.
+     * @param {(left: L, right: R) => U} onBoth - The function to apply to both values.
+     * @returns {U} - The value returned by onLeft.
+     */
+    fold<U>(onLeft: (left: L) => U, onRight: (right: R) => U, onBoth: (left: L, right: R) => U): U {
+        return onLeft(this.left);
+    }
+
+    /**
+     * Retrieves the right value, or the default value if the Ior has no right value.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Ior has no right value.
+     * @returns {R | U} - The default value.
+     */
+    getOrElse<U>(defaultValue: U): R | U {
+        return defaultValue;
+    }
+
+    /**
+     * Converts the Ior into an Either.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Either<L, R>} - A Left with the left value.
+     */
+    toEither(onBoth: IorBothPolicy = "right"): Either<L, R> {
+        return new Left<L, R>(this.left);
+    }
+
+    /**
+     * Converts the Ior into a Result, with the left value as the error value.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Result<R, L>} - An Err with the left value.
+     */
+    toResult(onBoth: IorBothPolicy = "right"): Result<R, L> {
+        return new Err<L, R>(this.left);
+    }
+}
+
+/**
+ * Represents the right case of an Ior.
+ *
+ * IorRight, {@link IorLeft} and {@link IorBoth} share the same API, so an {@link Ior} can be chained without narrowing
+ * it first. The API is right-biased: map and flatMap transform the right value and leave an IorLeft untouched.
+ *
+ * @template R - The type of the right value.
+ * @template L - The type of the left value of the Ior this IorRight belongs to.
+ */
+export class IorRight<R, L = never> {
+    constructor(readonly right: R) {
+    }
+
+    /**
+     * Checks if this Ior only holds a left value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isLeft(): this is IorLeft<L, R> {
+        return false;
+    }
+
+    /**
+     * Checks if this Ior only holds a right value, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isRight(): this is IorRight<R, L> {
+        return true;
+    }
+
+    /**
+     * Checks if this Ior holds both a left and a right value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isBoth(): this is IorBoth<L, R> {
+        return false;
+    }
+
+    /**
+     * Maps the right value to a new value.
+     * @template U - The type of the new right value.
+     * @param {(value: R) => U} mapper - A function to transform the right value.
+     * @returns {Ior<L, U>} - A new IorRight with the transformed value.
+     */
+    map<U>(mapper: (value: R) => U): Ior<L, U> {
+        return new IorRight<U, L>(mapper(this.right));
+    }
+
+    /**
+     * Maps the left value to a new value. Does nothing on an IorRight.
+     * @template M - The type of the new left value.
+     * @param {(value: L) => M} mapper - A function to transform the left value.
+     * @returns {Ior<M, R>} - This IorRight.
+     */
+    mapLeft<M>(mapper: (value: L) => M): Ior<M, R> {
+        return this as unknown as IorRight<R, M>;
+    }
+
+    /**
+     * Maps the right value to a new Ior, combining the left values of both.
+     * @template U - The type of the right value of the new Ior.
+     * @param {(value: R) => Ior<L, U>} mapper - A function to transform the right value.
+     * @param {(first: L, second: L) => L} combine - A function combining the left value of this Ior with the left
+     * value of the new one.
+     * @returns {Ior<L, U>} - The Ior returned by the mapper.
+     */
+    flatMap<U>(mapper: (value: R) => Ior<L, U>, combine: (first: L, second: L) => L): Ior<L, U> {
+        return mapper(this.right);
+    }
+
+    /**
+     * Applies the function matching the case of the Ior.
+     * @template U - The type of the result.
+     * @param {(left: L) => U} onLeft - The function to apply to a left value.
+     * @param {(right: R) => U} onRight - The function to apply to a right value.
+     * @param {(left: L, right: R) => U} onBoth - The function to apply to both values.
+     * @returns {U} - The value returned by onRight.
+     */
+    fold<U>(onLeft: (left: L) => U, onRight: (right: R) => U, onBoth: (left: L, right: R) => U): U {
+        return onRight(this.right);
+    }
+
+    /**
+     * Retrieves the right value, or the default value if the Ior has no right value.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Ior has no right value.
+     * @returns {R | U} - The right value.
+     */
+    getOrElse<U>(defaultValue: U): R | U {
+        return this.right;
+    }
+
+    /**
+     * Converts the Ior into an Either.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Either<L, R>} - A Right with the right value.
+     */
+    toEither(onBoth: IorBothPolicy = "right"): Either<L, R> {
+        return new Right<R, L>(this.right);
+    }
+
+    /**
+     * Converts the Ior into a Result, with the left value as the error value.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Result<R, L>} - An Ok with the right value.
+     */
+    toResult(onBoth: IorBothPolicy = "right"): Result<R, L> {
+        return new Ok<R, L>(this.right);
+    }
+}
+
+/**
+ * Represents the case of an Ior holding both a left and a right value.
+ *
+ * IorBoth, {@link IorLeft} and {@link IorRight} share the same API, so an {@link Ior} can be chained without narrowing
+ * it first. The API is right-biased: map and flatMap transform the right value and keep the left value.
+ *
+ * @template L - The type of the left value.
+ * @template R - The type of the right value.
+ */
+export class IorBoth<L, R> {
+    constructor(readonly left: L, readonly right: R) {
+    }
+
+    /**
+     * Checks if this Ior only holds a left value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isLeft(): this is IorLeft<L, R> {
+        return false;
+    }
+
+    /**
+     * Checks if this Ior only holds a right value, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isRight(): this is IorRight<R, L> {
+        return false;
+    }
+
+    /**
+     * Checks if this Ior holds both a left and a right value, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isBoth(): this is IorBoth<L, R> {
+        return true;
+    }
+
+    /**
+     * Maps the right value to a new value, keeping the left value.
+     * @template U - The type of the new right value.
+     * @param {(value: R) => U} mapper - A function to transform the right value.
+     * @returns {Ior<L, U>} - A new IorBoth with the same left value and the transformed right value.
+     */
+    map<U>(mapper: (value: R) => U): Ior<L, U> {
+        return new IorBoth<L, U>(this.left, mapper(this.right));
+    }
+
+    /**
+     * Maps the left value to a new value, keeping the right value.
+     * @template M - The type of the new left value.
+     * @param {(value: L) => M} mapper - A function to transform the left value.
+     * @returns {Ior<M, R>} - A new IorBoth with the transformed left value and the same right value.
+     */
+    mapLeft<M>(mapper: (value: L) => M): Ior<M, R> {
+        return new IorBoth<M, R>(mapper(this.left), this.right);
+    }
+
+    /**
+     * Maps the right value to a new Ior, combining the left values of both. The left value of this Ior is never lost:
+     * it is combined with the left value of the new Ior, or kept alongside its right value.
+     * @template U - The type of the right value of the new Ior.
+     * @param {(value: R) => Ior<L, U>} mapper - A function to transform the right value.
+     * @param {(first: L, second: L) => L} combine - A function combining the left value of this Ior with the left
+     * value of the new one.
+     * @returns {Ior<L, U>} - The Ior returned by the mapper, holding the combined left value.
+     */
+    flatMap<U>(mapper: (value: R) => Ior<L, U>, combine: (first: L, second: L) => L): Ior<L, U> {
+        return mapper(this.right).fold<Ior<L, U>>(
+            left => new IorLeft<L, U>(combine(this.left, left)),
+            right => new IorBoth<L, U>(this.left, right),
+            (left, right) => new IorBoth<L, U>(combine(this.left, left), right)
+        );
+    }
+
+    /**
+     * Applies the function matching the case of the Ior.
+     * @template U - The type of the result.
+     * @param {(left: L) => U} onLeft - The function to apply to a left value.
+     * @param {(right: R) => U} onRight - The function to apply to a right value.
+     * @param {(left: L, right: R) => U} onBoth - The function to apply to both values.
+     * @returns {U} - The value returned by onBoth.
+     */
+    fold<U>(onLeft: (left: L) => U, onRight: (right: R) => U, onBoth: (left: L, right: R) => U): U {
+        return onBoth(this.left, this.right);
+    }
+
+    /**
+     * Retrieves the right value, or the default value if the Ior has no right value.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Ior has no right value.
+     * @returns {R | U} - The right value.
+     */
+    getOrElse<U>(defaultValue: U): R | U {
+        return this.right;
+    }
+
+    /**
+     * Converts the Ior into an Either.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Either<L, R>} - A Right with the right value, or a Left with the left value if the policy is "left".
+     */
+    toEither(onBoth: IorBothPolicy = "right"): Either<L, R> {
+        return onBoth === "left" ? new Left<L, R>(this.left) : new Right<R, L>(this.right);
+    }
+
+    /**
+     * Converts the Ior into a Result, with the left value as the error value.
+     * @param {IorBothPolicy} [onBoth="right"] - The side kept when the Ior holds both values.
+     * @returns {Result<R, L>} - An Ok with the right value, or an Err with the left value if the policy is "left".
+     */
+    toResult(onBoth: IorBothPolicy = "right"): Result<R, L> {
+        return onBoth === "left" ? new Err<L, R>(this.left) : new Ok<R, L>(this.right);
+    }
+}
+
+/**
+ * Companion object of the Ior type, providing the creation of its three cases and the conversion from an Either.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export const Ior = {
+
+    /**
+     * Creates an Ior holding only a left value.
+     * @template L - The type of the left value.
+     * @param {L} value - The left value.
+     * @returns {IorLeft<L>} - An IorLeft instance.
+     */
+    left<L>(value: L): IorLeft<L> {
+        return new IorLeft(value);
+    },
+
+    /**
+     * Creates an Ior holding only a right value.
+     * @template R - The type of the right value.
+     * @param {R} value - The right value.
+     * @returns {IorRight<R>} - An IorRight instance.
+     */
+    right<R>(value: R): IorRight<R> {
+        return new IorRight(value);
+    },
+
+    /**
+     * Creates an Ior holding both a left and a right value.
+     * @template L - The type of the left value.
+     * @template R - The type of the right value.
+     * @param {L} left - The left value.
+     * @param {R} right - The right value.
+     * @returns {IorBoth<L, R>} - An IorBoth instance.
+     */
+    both<L, R>(left: L, right: R): IorBoth<L, R> {
+        return new IorBoth(left, right);
+    },
+
+    /**
+     * Creates an Ior from an Either, holding the value of its side.
+     * @template L - The type of the left value.
+     * @template R - The type of the right value.
+     * @param {Either<L, R>} either - The Either to convert.
+     * @returns {Ior<L, R>} - An IorLeft or an IorRight with the value of the Either.
+     */
+    fromEither<L, R>(either: Either<L, R>): Ior<L, R> {
+        return either.fold<Ior<L, R>>(left => new IorLeft<L, R>(left), right => new IorRight<R, L>(right));
+    }
+};
+
+/**
+ * Alias of the {@link Ior} companion object.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export const These = Ior;
@@ -0,0 +1,165 @@
+import {Optional, OptionalOptions} from "./optional";
+
+/**
+ * The LazyOptional class defers the computation of an {@link Optional} until it is first needed. The supplier runs at
+ * most once, on the first access, and its result is cached. Transformations are deferred as well, so chaining
+ * map, flatMap or filter does not trigger the computation.
+ *
+ * @example
+ * const user = Optional.lazy(() => repository.find(42));
+ * const name = user.map(u => u.name); // nothing computed yet
+ * console.log(name.orElse("Anonymous")); // repository.find runs now
+ * console.log(user.isPresent()); // the cached result is reused
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ * */
+export class LazyOptional<T> {
+    private evaluated?: Optional<T>;
+
+    private constructor(private readonly supplier: () => Optional<T>) {
+    }
+
+    /**
+     * Creates a LazyOptional from a supplier of a value. The value is wrapped with {@link Optional.of} when it is
+     * computed, using the given options.
+     *
+     * @param supplier - A function that computes the value.
+     * @param options - The options deciding which values are absent.
+     * @return a new LazyOptional of the supplied value.
+     * */
+    static of<T>(supplier: () => T | undefined | null, options?: OptionalOptions): LazyOptional<T> {
+        return new LazyOptional<T>(() => Optional.of(supplier(), options));
+    }
+
+    /**
+     * Creates a LazyOptional from a supplier of an Optional.
+     *
+     * @param supplier - A function that computes the Optional.
+     * @return a new LazyOptional of the supplied Optional.
+     * */
+    static from<T>(supplier: () => Optional<T>): LazyOptional<T> {
+        return new LazyOptional<T>(supplier);
+    }
+
+    /**
+     * Checks if the value has already been computed.
+     *
+     * @return true if the supplier has run, false otherwise.
+     * */
+    isEvaluated(): boolean {
+        return this.evaluated !== undefined;
+    }
+
+    /**
+     * Computes the value, if not done yet, and returns it as a plain Optional.
+     *
+     * @return the cached Optional.
+     * */
+    force(): Optional<T> {
+        if (this.evaluated === undefined) {
+            this.evaluated = this.supplier();
+        }
+        return this.evaluated;
+    }
+
+    /**
+     * Transforms the value using the provided mapper function, once it is computed.
+     *
+     * @param mapper - A function that takes the current value and returns a new value.
+     * @return a new LazyOptional with the mapped value.
+     * */
+    map<U>(mapper: (value: T) => U): LazyOptional<U> {
+        return LazyOptional.from(() => this.force().map(mapper));
+    }
+
+    /**
+     * Transforms the value using a mapper function returning an Optional or a LazyOptional, once it is computed.
+     *
+     * @param mapper - A function that takes the current value and returns an Optional-like result.
+     * @return a new LazyOptional with the mapped Optional.
+     * */
+    flatMap<U>(mapper: (value: T) => Optional<U> | LazyOptional<U>): LazyOptional<U> {
+        return LazyOptional.from(() => this.force().flatMap(value => {
+            const result = mapper(value);
+            return result instanceof LazyOptional ? result.force() : result;
+        }));
+    }
+
+    /**
+     * Keeps the value only if it satisfies the provided predicate, once it is computed.
+     *
+     * @param predicate - A function that takes the current value and returns a boolean.
+     * @return a new LazyOptional with the filtered value.
+     * */
+    filter(predicate: (value: T) => boolean): LazyOptional<T> {
+        return LazyOptional.from(() => this.force().filter(predicate));
+    }
+
+    /**
+     * Computes the value, if not done yet, and checks if it is present.
+     *
+     * @return true if the value is present, false otherwise.
+     * */
+    isPresent(): boolean {
+        return this.force().isPresent();
+    }
+
+    /**
+     * Computes the value, if not done yet, and checks if it is absent.
+     *
+     * @return true if the value is absent, false otherwise.
+     * */
+    isEmpty(): boolean {
+        return this.force().isEmpty();
+    }
+
+    /**
+     * Computes the value, if not done yet, and returns it.
+     *
+     * @return the value.
+     * @throws {NoSuchElementError} If the value is absent.
+     * */
+    get(): T {
+        return this.force().get();
+    }
+
+    /**
+     * Computes the value, if not done yet, and returns it, or the provided default value if it is absent.
+     *
+     * @param defaultValue - The default value to return if the value is absent.
+     * @return the value or the default value.
+     * */
+    orElse<R>(defaultValue: R): T | R {
+        return this.force().orElse(defaultValue);
+    }
+
+    /**
+     * Computes the value, if not done yet, and returns it, or the value supplied by the provider if it is absent.
+     *
+     * @param defaultValueProvider - A function that returns a default value.
+     * @return the value or the supplied default value.
+     * */
+    orElseGet<R>(defaultValueProvider: () => R): T | R {
+        return this.force().orElseGet(defaultValueProvider);
+    }
+
+    /**
+     * Computes the value, if not done yet, and returns it, or throws the error supplied by the provider if it is absent.
+     *
+     * @param errorProvider - A function that returns the Error to throw.
+     * @return the value.
+     * */
+    orElseThrow(errorProvider: () => Error): T {
+        return this.force().orElseThrow(errorProvider);
+    }
+
+    /**
+     * Computes the value, if not done yet, and executes the provided consumer if it is present.
+     *
+     * @param consumer - A callback function that takes the value and performs an action.
+     * */
+    ifPresent(consumer: (value: T) => void): void {
+        this.force().ifPresent(consumer);
+    }
+}
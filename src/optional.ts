@@ -1,16 +1,100 @@
+import {AsyncOptional} from "./asyncOptional";
+import {Equality, InlineEquality} from "./equality";
+import {Err, Ok, Result} from "./result";
+import {Either, Left, Right} from "./either";
+import {NoSuchElementError} from "./errors";
+import {Emptiness, EmptinessPolicy} from "./emptiness";
+import {LazyOptional} from "./lazyOptional";
+
+type OptionalElement<T> = T extends ReadonlyArray<infer E> ? E
+    : T extends ReadonlyMap<any, infer V> ? V
+        : T extends ReadonlySet<infer E> ? E
+            : T;
+
+type OptionalValues<T extends readonly Optional<any>[]> = {
+    [K in keyof T]: T[K] extends Optional<infer V> ? V : never
+};
+
+type OptionalRecord<T extends Record<string, Optional<any>>> = {
+    [K in keyof T]: T[K] extends Optional<infer V> ? V : never
+};
+
+type PathKey = string | number;
+
+type PathSegments<P extends string> =
+    P extends `${infer Head}.${infer Tail}` ? [...PathSegments<Head>, ...PathSegments<Tail>]
+        : P extends `${infer Head}[${infer Index}]${infer Tail}` ? [...PathSegments<Head>, Index, ...PathSegments<Tail>]
+            : P extends "" ? [] : [P];
+
+type PropertyAt<T, K> =
+    T extends readonly unknown[]
+        ? K extends number | `${number}` ? (K extends keyof T ? T[K] : T[number]) : never
+        : K extends keyof T ? T[K]
+            : K extends `${infer N extends number}` ? (N extends keyof T ? T[N] : never) : never;
+
+type ValueAt<T, K extends readonly PathKey[]> =
+    K extends readonly [infer Head, ...infer Rest extends PathKey[]]
+        ? ValueAt<PropertyAt<NonNullable<T>, Head>, Rest>
+        : T;
+
+type PathValue<T, P extends string> = string extends P ? unknown : ValueAt<T, PathSegments<P>>;
+
+type ValidPath<T, P extends string> = [PathValue<T, P>] extends [never] ? never : P;
+
+type ValidKeys<T, K extends PathKey[]> = [ValueAt<T, K>] extends [never] ? never : K;
+
+/**
+ * Provenance of a traced Optional, recording where along a chain of operations it became empty.
+ *
+ * @interface OptionalTrace
+ * @property {string} [label] - The label given with {@link Optional.traced}, if any.
+ * @property {number} step - The number of operations applied since tracing started.
+ * @property {number} [emptiedAt] - The step at which the Optional became empty, if it is empty.
+ * @property {string} [operation] - The name of the operation that emptied the Optional, if it is empty.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export interface OptionalTrace {
+    readonly label?: string;
+    readonly step: number;
+    readonly emptiedAt?: number;
+    readonly operation?: string;
+}
+
+/**
+ * Options for creating an Optional.
+ *
+ * @interface OptionalOptions
+ * @property {EmptinessPolicy | EmptinessPolicy[]} [emptyWhen] - The policy, or policies, deciding which values are
+ * absent. Defaults to the global policy set with {@link Optional.setEmptinessPolicy}.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export interface OptionalOptions {
+    readonly emptyWhen?: EmptinessPolicy | EmptinessPolicy[];
+}
+
 /**
  * The Optional class is a utility class that provides a way to handle potentially null or undefined values in a more
  * concise and expressive manner. It allows wrapping a value in an Optional object, which can then be used to perform
  * various operations on the value, such as checking if it is present, retrieving it, applying transformations,
  * and handling empty values.
  *
+ * An Optional is either a {@link Some}, holding a present value, or a {@link None}, holding no value. The isPresent and
+ * isEmpty methods are type guards, so TypeScript narrows an Optional to the matching variant.
+ *
  * @since version 1.0.2
  * @author Manuel Santos <ney.br.santos@gmail.com>
  * */
-export class Optional<T> {
-    private readonly value: T | undefined | null;
+export abstract class Optional<T> {
+    protected readonly value: T | undefined | null;
+    protected tracing?: OptionalTrace;
+    private static tracingEnabled = false;
+    private static emptinessPolicy: EmptinessPolicy = Emptiness.standard;
 
-    private constructor(value: T | undefined | null) {
+    protected constructor(value: T | undefined | null) {
         this.value = value;
     }
 
@@ -19,11 +103,100 @@ export class Optional<T> {
      * It is used to wrap a value in an Optional object, allowing for more concise and expressive code when dealing with
      * potentially null or undefined values
      *
+     * By default, null, undefined, blank strings and empty arrays, Maps or Sets result in a {@link None}, any other value
+     * in a {@link Some}. Other values can be treated as absent with the emptyWhen option, or globally with
+     * {@link setEmptinessPolicy}. Null and undefined are always absent.
+     *
+     * @example
+     * Optional.of(NaN).isPresent(); // true
+     * Optional.of(NaN, {emptyWhen: Emptiness.nan}).isPresent(); // false
+     *
      * @param value (generic type) - The value to be wrapped in the Optional object. It can be of any type, including undefined or null.
+     * @param options - The options deciding which values are absent.
      * @return a new Optional object containing the specified value.
      * */
-    static of<T>(value: T | undefined | null): Optional<T> {
-        return new Optional<T>(value);
+    static of<T>(value: T | undefined | null, options?: OptionalOptions): Optional<T> {
+        const optional: Optional<T> = Optional.isEmptyValue(value, options?.emptyWhen) ? new None(value) : new Some(value as T);
+        if (Optional.tracingEnabled) {
+            optional.tracing = optional.isEmpty() ? {step: 0, emptiedAt: 0, operation: "of"} : {step: 0};
+        }
+        return optional;
+    }
+
+    /**
+     * The ofNonEmpty method creates an Optional that treats every value considered absent by the built-in policies as
+     * empty: null, undefined, blank strings, empty collections, NaN and invalid Dates.
+     *
+     * @example
+     * Optional.ofNonEmpty(parseInt("abc")).isEmpty(); // true
+     * Optional.ofNonEmpty(new Date("not a date")).isEmpty(); // true
+     *
+     * @param value - The value to be wrapped in the Optional object.
+     * @return a new Optional object containing the specified value, or an empty Optional if it is considered absent.
+     * */
+    static ofNonEmpty<T>(value: T | undefined | null): Optional<T> {
+        return Optional.of(value, {emptyWhen: Emptiness.strict});
+    }
+
+    /**
+     * The lazy method creates a LazyOptional, whose value is computed by the supplier only when it is first needed.
+     * The supplier runs at most once and its result is cached.
+     *
+     * @example
+     * const config = Optional.lazy(() => loadConfig());
+     * // loadConfig has not run yet
+     * config.map(c => c.port).orElse(8080); // loadConfig runs now
+     * config.isPresent(); // the cached result is reused
+     *
+     * @param supplier - A function that computes the value.
+     * @param options - The options deciding which values are absent.
+     * @return a new LazyOptional of the supplied value.
+     * */
+    static lazy<T>(supplier: () => T | undefined | null, options?: OptionalOptions): LazyOptional<T> {
+        return LazyOptional.of(supplier, options);
+    }
+
+    /**
+     * Sets the global policy deciding which values are absent when no emptyWhen option is given. Null and undefined
+     * are always absent.
+     *
+     * @example
+     * Optional.setEmptinessPolicy(Emptiness.strict);
+     * Optional.of(NaN).isEmpty(); // true
+     *
+     * @param policy - The policy, or policies, to use by default.
+     * */
+    static setEmptinessPolicy(policy: EmptinessPolicy | EmptinessPolicy[]): void {
+        Optional.emptinessPolicy = Array.isArray(policy) ? Emptiness.any(...policy) : policy;
+    }
+
+    /**
+     * Restores the default global emptiness policy, {@link Emptiness.standard}.
+     * */
+    static resetEmptinessPolicy(): void {
+        Optional.emptinessPolicy = Emptiness.standard;
+    }
+
+    /**
+     * Enables provenance tracing for every Optional created from now on. Traced Optionals remember the step and the
+     * operation that made them empty, which is reported by {@link trace} and by the error thrown from {@link get}.
+     *
+     * Tracing is disabled by default, in which case it adds no work to any operation.
+     *
+     * @example
+     * Optional.enableTracing();
+     * Optional.of(user).map(u => u.address).filter(a => a.verified).get();
+     * // throws NoSuchElementError: Value is not present (emptied by 'filter' at step 2)
+     * */
+    static enableTracing(): void {
+        Optional.tracingEnabled = true;
+    }
+
+    /**
+     * Disables the provenance tracing enabled by {@link enableTracing}. Optionals that are already traced keep their trace.
+     * */
+    static disableTracing(): void {
+        Optional.tracingEnabled = false;
     }
 
     /**
@@ -36,6 +209,22 @@ export class Optional<T> {
         return Optional.of<R>(undefined);
     }
 
+    /**
+     * The ofAsync method is a static method that creates an AsyncOptional from a promise of a value. It allows
+     * chaining transformations on a value that is not yet available, without awaiting each step.
+     *
+     * @example
+     * const name = await Optional.ofAsync(userRepository.findById(42))
+     *     .map(user => user.name)
+     *     .orElse("Anonymous");
+     *
+     * @param promise - A promise of the value to be wrapped. It can resolve to undefined or null.
+     * @return a new AsyncOptional resolving to an Optional of the specified value.
+     * */
+    static ofAsync<T>(promise: PromiseLike<T | undefined | null>): AsyncOptional<T> {
+        return AsyncOptional.of(promise);
+    }
+
     /**
      * The allPresent method checks if all the elements in an array of Optional objects are present.
      *
@@ -132,14 +321,432 @@ export class Optional<T> {
         return Optional.empty();
     }
 
+    /**
+     * The flattenAll method extracts the values of all the present Optional objects in an array, skipping the empty ones.
+     *
+     * ### Example Usage
+     * ```ts
+     * const values = Optional.flattenAll([Optional.of(1), Optional.empty<number>(), Optional.of(3)]);
+     * console.log(values); // Output: [1, 3]
+     * ```
+     *
+     * @param optionals - An array of Optional objects.
+     * @return An array with the values of the present Optional objects, in the same order.
+     * */
+    static flattenAll<T>(optionals: Optional<T>[]): T[] {
+        return optionals.flatMap(optional => optional.toArray());
+    }
+
+    /**
+     * The zip method combines several Optional objects into a single Optional of a tuple holding all their values.
+     * The type of each element is preserved in the resulting tuple.
+     *
+     * ### Example Usage
+     * ```ts
+     * const zipped = Optional.zip(Optional.of(1), Optional.of("one"), Optional.of(true));
+     * console.log(zipped.get()); // Output: [1, "one", true]
+     *
+     * const empty = Optional.zip(Optional.of(1), Optional.empty<string>());
+     * console.log(empty.isEmpty()); // Output: true
+     * ```
+     *
+     * @param optionals - A spread parameter that accepts a variable number of Optional objects.
+     * @return An Optional containing the tuple of values if all the Optional objects are present, or an empty Optional otherwise.
+     * */
+    static zip<T extends Optional<any>[]>(...optionals: T): Optional<OptionalValues<T>> {
+        if (!Optional.allPresent(optionals)) {
+            return Optional.empty();
+        }
+        return new Some(optionals.map(optional => optional.get()) as OptionalValues<T>);
+    }
+
+    /**
+     * The zipWith method combines the values of several Optional objects using a combiner function.
+     *
+     * ### Example Usage
+     * ```ts
+     * const fullName = Optional.zipWith(
+     *     [Optional.of("Manuel"), Optional.of("Santos")],
+     *     (firstName, lastName) => `${firstName} ${lastName}`
+     * );
+     * console.log(fullName.get()); // Output: "Manuel Santos"
+     * ```
+     *
+     * @param optionals - A tuple of Optional objects.
+     * @param combiner - A function that takes the values of all the Optional objects and returns a new value.
+     * @return An Optional containing the combined value if all the Optional objects are present, or an empty Optional otherwise.
+     * */
+    static zipWith<T extends Optional<any>[], R>(
+        optionals: [...T],
+        combiner: (...values: OptionalValues<T>) => R
+    ): Optional<R> {
+        return Optional.zip(...optionals).map(values => combiner(...values));
+    }
+
+    /**
+     * The combine method combines a record of Optional objects into a single Optional of a record holding all their
+     * values under the same keys.
+     *
+     * ### Example Usage
+     * ```ts
+     * const context = Optional.combine({user: optionalUser, org: optionalOrg});
+     * context.ifPresent(({user, org}) => console.log(`${user.name} @ ${org.name}`));
+     * ```
+     *
+     * @param optionals - A record of Optional objects.
+     * @return An Optional containing the record of values if all the Optional objects are present, or an empty Optional otherwise.
+     * */
+    static combine<T extends Record<string, Optional<any>>>(optionals: T): Optional<OptionalRecord<T>> {
+        const entries = Object.entries(optionals);
+        if (!Optional.allPresent(entries.map(([, optional]) => optional))) {
+            return Optional.empty();
+        }
+        return new Some(Object.fromEntries(
+            entries.map(([key, optional]) => [key, optional.get()])
+        ) as OptionalRecord<T>);
+    }
+
+    /**
+     * The sequence method turns an array of Optional objects into an Optional of an array holding all their values, or
+     * a record of Optional objects into an Optional of a record holding all their values under the same keys.
+     * Unlike {@link allPresent}, the values are kept.
+     *
+     * ### Example Usage
+     * ```ts
+     * const ids = Optional.sequence([Optional.of(1), Optional.of(2)]);
+     * console.log(ids.get()); // Output: [1, 2]
+     *
+     * const empty = Optional.sequence([Optional.of(1), Optional.empty<number>()]);
+     * console.log(empty.isEmpty()); // Output: true
+     * ```
+     *
+     * @param optionals - An array or a record of Optional objects.
+     * @return An Optional containing all the values if all the Optional objects are present, or an empty Optional otherwise.
+     * */
+    static sequence<T>(optionals: readonly Optional<T>[]): Optional<T[]>;
+    static sequence<T extends Record<string, Optional<unknown>>>(optionals: T): Optional<OptionalRecord<T>>;
+    static sequence(optionals: readonly Optional<unknown>[] | Record<string, Optional<unknown>>): Optional<unknown> {
+        return Array.isArray(optionals)
+            ? Optional.traverse(optionals as readonly Optional<unknown>[], optional => optional)
+            : Optional.combine(optionals as Record<string, Optional<unknown>>);
+    }
+
+    /**
+     * The traverse method maps every item of an array, or every value of a record, through a function returning an
+     * Optional, and collects the results if all of them are present. The mapping stops at the first empty result.
+     * Mapping an empty array or record results in an Optional of an empty array or record.
+     *
+     * ### Example Usage
+     * ```ts
+     * const users = Optional.traverse([1, 2, 3], id => optionalOf(repository.find(id)));
+     * users.ifPresent(users => console.log(users.length)); // Output: 3, if all the users were found
+     *
+     * const ports = Optional.traverse({http: "80", https: "443"}, port => Optional.of(parseInt(port)));
+     * console.log(ports.get()); // Output: { http: 80, https: 443 }
+     * ```
+     *
+     * @param items - An array of items or a record of values.
+     * @param mapper - A function that takes an item and its index or key, and returns an Optional.
+     * @return An Optional containing the mapped values, under the same indexes or keys, if all of them are present, or an empty Optional otherwise.
+     * */
+    static traverse<A, T>(items: readonly A[], mapper: (item: A, index: number) => Optional<T>): Optional<T[]>;
+    static traverse<R extends object, T>(
+        items: R,
+        mapper: (value: R[keyof R], key: keyof R & string) => Optional<T>
+    ): Optional<{ [K in keyof R]: T }>;
+    static traverse(items: readonly unknown[] | Record<string, unknown>, mapper: (item: unknown, key: never) => Optional<unknown>): Optional<unknown> {
+        const values: [PropertyKey, unknown][] = [];
+        for (const [key, item] of Optional.entriesOf(items)) {
+            const optional = mapper(item, key as never);
+            if (optional.isEmpty()) {
+                return Optional.empty();
+            }
+            values.push([key, optional.get()]);
+        }
+        return new Some(Optional.assemble(items, values));
+    }
+
+    /**
+     * The sequenceAsync method is the asynchronous counterpart of {@link sequence}. It waits for an array or a record of
+     * Optional objects, promises of Optional objects or AsyncOptional objects, and collects their values if all of
+     * them are present.
+     *
+     * ### Example Usage
+     * ```ts
+     * const pair = await Optional.sequenceAsync([Optional.ofAsync(findUser(1)), Optional.ofAsync(findUser(2))]);
+     * ```
+     *
+     * @param optionals - An array or a record of Optional-like objects.
+     * @return An AsyncOptional resolving to all the values if all the Optional objects are present, or to an empty Optional otherwise.
+     * */
+    static sequenceAsync<T>(optionals: readonly (Optional<T> | PromiseLike<Optional<T>>)[]): AsyncOptional<T[]>;
+    static sequenceAsync<T extends Record<string, Optional<unknown> | PromiseLike<Optional<unknown>>>>(
+        optionals: T
+    ): AsyncOptional<{ [K in keyof T]: Awaited<T[K]> extends Optional<infer V> ? V : never }>;
+    static sequenceAsync(optionals: readonly unknown[] | Record<string, unknown>): AsyncOptional<unknown> {
+        return Optional.traverseAsync(optionals as readonly unknown[], optional => optional as Optional<unknown>);
+    }
+
+    /**
+     * The traverseAsync method is the asynchronous counterpart of {@link traverse}. The mapper can be synchronous or
+     * asynchronous, and at most `concurrency` mappers run at the same time. No further mapper is started once an empty
+     * result is found.
+     *
+     * ### Example Usage
+     * ```ts
+     * const profiles = await Optional.traverseAsync(userIds, id => Optional.ofAsync(fetchProfile(id)), 4);
+     * ```
+     *
+     * @param items - An array of items or a record of values.
+     * @param mapper - A function that takes an item and its index or key, and returns an Optional-like result.
+     * @param concurrency - The maximum number of mappers running at the same time. Defaults to unlimited.
+     * @return An AsyncOptional resolving to the mapped values if all of them are present, or to an empty Optional otherwise.
+     * @throws {Error} If the concurrency is not a positive integer.
+     * */
+    static traverseAsync<A, T>(
+        items: readonly A[],
+        mapper: (item: A, index: number) => Optional<T> | PromiseLike<Optional<T>>,
+        concurrency?: number
+    ): AsyncOptional<T[]>;
+    static traverseAsync<R extends object, T>(
+        items: R,
+        mapper: (value: R[keyof R], key: keyof R & string) => Optional<T> | PromiseLike<Optional<T>>,
+        concurrency?: number
+    ): AsyncOptional<{ [K in keyof R]: T }>;
+    static traverseAsync(
+        items: readonly unknown[] | Record<string, unknown>,
+        mapper: (item: unknown, key: never) => Optional<unknown> | PromiseLike<Optional<unknown>>,
+        concurrency: number = Infinity
+    ): AsyncOptional<unknown> {
+        if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+            throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+        }
+        const entries = Optional.entriesOf(items);
+        const values: [PropertyKey, unknown][] = new Array(entries.length);
+        let next = 0;
+        let empty = false;
+
+        const worker = async (): Promise<void> => {
+            while (!empty && next < entries.length) {
+                const index = next++;
+                const [key, item] = entries[index];
+                const optional = await mapper(item, key as never);
+                if (optional.isEmpty()) {
+                    empty = true;
+                } else {
+                    values[index] = [key, optional.get()];
+                }
+            }
+        };
+
+        const workers = Array.from({length: Math.min(concurrency, entries.length)}, worker);
+        return AsyncOptional.from(Promise.all(workers).then(() => empty
+            ? Optional.empty()
+            : new Some(Optional.assemble(items, values))));
+    }
+
+    private static entriesOf(items: readonly unknown[] | Record<string, unknown>): [PropertyKey, unknown][] {
+        return Array.isArray(items)
+            ? items.map((item, index) => [index, item])
+            : Object.entries(items);
+    }
+
+    private static assemble(items: readonly unknown[] | Record<string, unknown>, values: [PropertyKey, unknown][]): unknown {
+        return Array.isArray(items)
+            ? values.map(([, value]) => value)
+            : Object.fromEntries(values);
+    }
+
+    /**
+     * The path method navigates a nested property path of an object, such as `"user.addresses[0].city"`. The type of
+     * the leaf property is inferred from the path, and invalid paths are rejected at compile time.
+     *
+     * ### Example Usage
+     * ```ts
+     * const order = {customer: {addresses: [{city: "Praia"}]}};
+     *
+     * const city = Optional.path(order, "customer.addresses[0].city");
+     * console.log(city.get()); // Output: "Praia"
+     *
+     * const missing = Optional.path(order, "customer.addresses[1].city");
+     * console.log(missing.isEmpty()); // Output: true
+     * ```
+     *
+     * @param root - The object to navigate.
+     * @param path - The property path, using dots for properties and brackets for array indexes.
+     * @return An Optional containing the value at the path, or an empty Optional if any value along the path is null or undefined.
+     * */
+    static path<T, P extends string>(root: T, path: ValidPath<T, P>): Optional<PathValue<T, P>> {
+        return Optional.of(root).at(...Optional.parsePath(path) as ValidKeys<T, PathKey[]>) as Optional<PathValue<T, P>>;
+    }
+
+    /**
+     * The set method returns a copy of an object with the value at a nested property path replaced. The plain objects
+     * and arrays along the path are copied, while the rest of the object is shared with the original one. Missing
+     * objects or arrays along the path are created.
+     *
+     * ### Example Usage
+     * ```ts
+     * const order = {customer: {addresses: [{city: "Praia"}]}};
+     *
+     * const updated = Optional.set(order, "customer.addresses[0].city", "Mindelo");
+     * console.log(updated.customer.addresses[0].city); // Output: "Mindelo"
+     * console.log(order.customer.addresses[0].city); // Output: "Praia"
+     * ```
+     *
+     * @param root - The object to update.
+     * @param path - The property path, using dots for properties and brackets for array indexes.
+     * @param value - The new value at the path.
+     * @return An updated copy of the root object.
+     * @throws {Error} If a value along the path is neither a plain object nor an array, such as a Date or a class instance.
+     * */
+    static set<T, P extends string>(root: T, path: ValidPath<T, P>, value: PathValue<T, P>): T {
+        return Optional.updatePath(root, path, () => value);
+    }
+
+    /**
+     * The updatePath method returns a copy of an object with the value at a nested property path replaced by the
+     * result of an updater function, which receives the current value as an Optional.
+     *
+     * ### Example Usage
+     * ```ts
+     * const cart = {items: [{quantity: 1}]};
+     *
+     * const updated = Optional.updatePath(cart, "items[0].quantity", quantity => quantity.orElse(0) + 1);
+     * console.log(updated.items[0].quantity); // Output: 2
+     * ```
+     *
+     * @param root - The object to update.
+     * @param path - The property path, using dots for properties and brackets for array indexes.
+     * @param updater - A function that takes the current value at the path as an Optional and returns the new value.
+     * @return An updated copy of the root object.
+     * @throws {Error} If a value along the path is neither a plain object nor an array, such as a Date or a class instance.
+     * */
+    static updatePath<T, P extends string>(
+        root: T,
+        path: ValidPath<T, P>,
+        updater: (current: Optional<PathValue<T, P>>) => PathValue<T, P>
+    ): T {
+        const update = (target: unknown, keys: string[]): unknown => {
+            if (keys.length === 0) {
+                return updater(Optional.of(target as PathValue<T, P>));
+            }
+            const [key, ...rest] = keys;
+            if (target === null || target === undefined) {
+                return update(/^\d+$/.test(key) ? [] : {}, keys);
+            }
+            if (Array.isArray(target)) {
+                const copy = [...target];
+                copy[Number(key)] = update(target[Number(key)], rest);
+                return copy;
+            }
+            if (!Optional.isPlainObject(target)) {
+                throw new Error(`Cannot update '${key}' of ${Object.prototype.toString.call(target)}: only plain objects and arrays can be copied`);
+            }
+            return Object.assign(Object.create(Object.getPrototypeOf(target)), target, {[key]: update(target[key], rest)});
+        };
+        return update(root, Optional.parsePath(path)) as T;
+    }
+
+    private static isPlainObject(value: unknown): value is Record<string, unknown> {
+        if (typeof value !== "object" || value === null) {
+            return false;
+        }
+        const prototype = Object.getPrototypeOf(value);
+        return prototype === Object.prototype || prototype === null;
+    }
+
+    private static parsePath(path: string): string[] {
+        return path.split(/[.[\]]/).filter(key => key !== "");
+    }
+
+    /**
+     * The gen method provides a generator-based do-notation for combining several Optional objects without nesting
+     * flatMap calls. Each `yield*` on {@link Optional.bind} unwraps the value of an Optional, and the first empty
+     * Optional short-circuits the whole computation. Unlike {@link Result.gen} and {@link Either.gen}, `yield*` on the
+     * Optional itself does not unwrap it, since iterating an Optional yields its zero or one elements: `bind()` is the
+     * form shared by the three do-notations.
+     *
+     * ### Example Usage
+     * ```ts
+     * const sum = Optional.gen(function* () {
+     *     const a = yield* Optional.of(1).bind();
+     *     const b = yield* Optional.of(2).bind();
+     *     return a + b;
+     * });
+     * console.log(sum.get()); // Output: 3
+     * ```
+     *
+     * @param body - A generator function that unwraps Optional objects with `yield*` and returns the final value.
+     * @return An Optional containing the returned value, or an empty Optional if any unwrapped Optional is empty.
+     * */
+    static gen<Y extends Optional<any>, R>(body: () => Generator<Y, R, any>): Optional<R> {
+        const iterator = body();
+        let state = iterator.next();
+        while (!state.done) {
+            const optional = state.value as Y;
+            if (optional.isEmpty()) {
+                iterator.return(undefined as R);
+                return Optional.empty();
+            }
+            state = iterator.next(optional.get());
+        }
+        return Optional.of(state.value as R);
+    }
+
+    /**
+     * The genAsync method is the asynchronous variant of {@link Optional.gen}. The body is an async generator function,
+     * so promises can be awaited between the unwrapped Optional objects.
+     *
+     * ### Example Usage
+     * ```ts
+     * const profile = await Optional.genAsync(async function* () {
+     *     const user = yield* (await userRepository.findById(42)).bind();
+     *     const settings = yield* Optional.of(user.settings).bind();
+     *     return {name: user.name, theme: settings.theme};
+     * });
+     * ```
+     *
+     * @param body - An async generator function that unwraps Optional objects with `yield*` and returns the final value.
+     * @return An AsyncOptional resolving to the returned value, or to empty if any unwrapped Optional is empty.
+     * */
+    static genAsync<Y extends Optional<any>, R>(body: () => AsyncGenerator<Y, R, any>): AsyncOptional<R> {
+        const run = async (): Promise<Optional<R>> => {
+            const iterator = body();
+            let state = await iterator.next();
+            while (!state.done) {
+                const optional = state.value as Y;
+                if (optional.isEmpty()) {
+                    await iterator.return(undefined as R);
+                    return Optional.empty();
+                }
+                state = await iterator.next(optional.get());
+            }
+            return Optional.of(state.value as R);
+        };
+        return AsyncOptional.from(run());
+    }
+
+    private static isEmptyValue(value: unknown, emptyWhen: EmptinessPolicy | EmptinessPolicy[] = Optional.emptinessPolicy): boolean {
+        if (value === undefined || value === null) {
+            return true;
+        }
+        return Array.isArray(emptyWhen) ? emptyWhen.some(policy => policy(value)) : emptyWhen(value);
+    }
+
     /**
      * The isPresent method  is used to check if the value inside the Optional object is present or not.
+     * It is a type guard, narrowing the Optional to {@link Some} when it returns true.
+     *
+     * @example
+     * const optional = Optional.of(user);
+     * if (optional.isPresent()) {
+     *     console.log(optional.value.name); // No need for get() or non-null assertions
+     * }
      *
      * @return a boolean value indicating whether the value inside the Optional object is present (true) or not (false).
      * */
-    isPresent(): boolean {
-        return !this.isEmpty();
-    }
+    abstract isPresent(): this is Some<T>;
 
     /**T
      * he ifPresent method  is used to execute a specified action if the value inside the Optional
@@ -242,17 +849,17 @@ export class Optional<T> {
      * @return The value inside the Optional object if it is present.
      * Throws an error with the message "Value is not present" if the Optional object is empty.
      * */
-    get(): T {
-        if (this.isEmpty()) {
-            throw new Error("Value is not present");
-        }
-        return this.value!;
-    }
+    abstract get(): T;
 
     /**
-     * Raw is used to retrieve the value inside the Optional object.
+     * Raw is used to retrieve the value inside the Optional object. An Optional created from a value that the emptiness
+     * policy considers absent, such as a blank string or an empty array, still returns that value.
+     *
+     * @example
+     * Optional.of("  ").raw(); // "  "
+     * Optional.of(null).raw(); // undefined
      *
-     * @return The value inside the Optional object.
+     * @return The value inside the Optional object, or undefined if it is null or undefined.
      * */
     raw(): T | undefined {
         if (this.value === null) return undefined;
@@ -335,12 +942,12 @@ export class Optional<T> {
      * */
     map<U>(mapper: (value: T) => U, defaultValue?: U): Optional<U> {
         if (this.isPresent()) {
-            return Optional.of(mapper(this.value!));
+            return this.traceStep("map", Optional.of(mapper(this.value!)));
         }
         if (defaultValue) {
-            return Optional.of(defaultValue);
+            return this.traceStep("map", Optional.of(defaultValue));
         }
-        return Optional.empty();
+        return this.traceStep("map", Optional.empty());
     }
 
     /**
@@ -359,9 +966,9 @@ export class Optional<T> {
      * */
     flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U> {
         if (this.isPresent()) {
-            return mapper(this.value!);
+            return this.traceStep("flatMap", mapper(this.value!));
         }
-        return Optional.empty();
+        return this.traceStep("flatMap", Optional.empty());
     }
 
     /**
@@ -418,23 +1025,23 @@ export class Optional<T> {
      * */
     filter(predicate: (value: T) => boolean): Optional<T> {
         if (this.isEmpty()) {
-            return this; // Return itself if it's empty
+            return this.traceStep("filter", this); // Return itself if it's empty
         }
 
         if (Array.isArray(this.value)) {
             // Filter array
-            return Optional.of(this.value.filter(predicate) as T);
+            return this.traceStep("filter", Optional.of(this.value.filter(predicate) as T));
         } else if (this.value instanceof Map || this.value instanceof Set) {
             // Filter map or set
             const filteredEntries = Array.from(this.value.entries()).filter(([, value]) => predicate(value));
             if (this.value instanceof Map) {
-                return Optional.of(new Map(filteredEntries) as T);
+                return this.traceStep("filter", Optional.of(new Map(filteredEntries) as T));
             } else {
-                return Optional.of(new Set(filteredEntries.map(([, value]) => value)) as T);
+                return this.traceStep("filter", Optional.of(new Set(filteredEntries.map(([, value]) => value)) as T));
             }
         } else {
             // Filter single value
-            return predicate(this.value as T) ? this : Optional.empty();
+            return this.traceStep("filter", predicate(this.value as T) ? this : Optional.empty());
         }
     }
 
@@ -447,7 +1054,35 @@ export class Optional<T> {
      * Returns an empty Optional object if the original Optional object is not present.
      * */
     convert<U>(converter: (value: T) => U): Optional<U> {
-        return this.isPresent() ? Optional.of(converter(this.value!)) : Optional.empty();
+        return this.traceStep("convert", this.isPresent() ? Optional.of(converter(this.value!)) : Optional.empty());
+    }
+
+    /**
+     * The at method navigates a nested property path of the value inside the Optional object, given as a list of
+     * property names and array indexes. The type of the leaf property is inferred, and invalid keys are rejected at
+     * compile time.
+     *
+     * @example
+     * const order = Optional.of({customer: {addresses: [{city: "Praia"}]}});
+     * console.log(order.at("customer", "addresses", 0, "city").get()); // Output: "Praia"
+     * console.log(order.at("customer", "addresses", 1, "city").isEmpty()); // Output: true
+     *
+     * @param keys - The property names and array indexes to navigate.
+     * @return Returns an Optional containing the value at the path, or an empty Optional if the Optional object or any
+     * value along the path is null or undefined.
+     * */
+    at<K extends PathKey[]>(...keys: ValidKeys<T, K>): Optional<ValueAt<T, K>> {
+        if (this.isEmpty()) {
+            return this.traceStep("at", Optional.empty());
+        }
+        let current: unknown = this.value;
+        for (const key of keys as PathKey[]) {
+            if (current === undefined || current === null) {
+                return this.traceStep("at", Optional.empty());
+            }
+            current = (current as Record<PathKey, unknown>)[key];
+        }
+        return this.traceStep("at", Optional.of(current as ValueAt<T, K>));
     }
 
     /**
@@ -461,27 +1096,12 @@ export class Optional<T> {
      * const emptyOptional = Optional.empty(); // Create an Optional object with an empty value
      * console.log(emptyOptional.isEmpty()); // Output: true
      *
+     * It is a type guard, narrowing the Optional to {@link None} when it returns true.
+     *
      * @return A boolean value indicating whether the value inside the Optional object is empty or not. true if the value
      * is empty, false otherwise.
      * */
-    isEmpty(): boolean {
-        if (this.value === undefined || this.value === null) {
-            return true;
-        }
-
-        if (typeof this.value === "string" && this.value.trim() === "") {
-            return true;
-        }
-
-        if (this.value instanceof Map || this.value instanceof Set) {
-            return this.value.size === 0;
-        }
-
-        if (Array.isArray(this.value)) {
-            return this.value.length === 0;
-        }
-        return false;
-    }
+    abstract isEmpty(): this is None;
 
     /**
      * The ifEmpty method  executes a specified action if the value inside the Optional object is empty.
@@ -540,6 +1160,7 @@ export class Optional<T> {
 
     /**
      * The contains method  checks if the value inside the Optional object contains a given search value.
+     * Values are compared using {@link Equality.equals} unless a custom equality function is provided.
      *
      * @example
      * const optional = Optional.of([1, 2, 3, 4, 5]);
@@ -547,21 +1168,26 @@ export class Optional<T> {
      * const result = optional.contains(searchValue);
      * console.log(result); // true
      *
+     * const users = Optional.of([{id: 1, name: "Manuel"}]);
+     * console.log(users.contains({id: 1, name: "Manuel"})); // true
+     * console.log(users.contains({id: 1}, (a, b) => a.id === b.id)); // true
+     *
      * @param searchValue (generic type) - The value to search for in the Optional object.
+     * @param equality (optional) - The function used to compare values. Defaults to structural equality.
      * @return boolean: Returns true if the value inside the Optional object contains the search value, otherwise returns false.
      * */
-    contains(searchValue: T): boolean {
+    contains(searchValue: OptionalElement<T>, equality: InlineEquality<OptionalElement<T>> = Equality.equals): boolean {
         if (this.isEmpty()) {
             return false;
         }
         if (typeof this.value === "string" && typeof searchValue === "string") {
             return this.value.includes(searchValue);
         } else if (Array.isArray(this.value)) {
-            return this.value.includes(searchValue);
+            return this.value.some(value => equality(value, searchValue));
         } else if (this.value instanceof Map || this.value instanceof Set) {
-            return Array.from(this.value.values()).includes(searchValue);
+            return Array.from(this.value.values()).some(value => equality(value, searchValue));
         } else {
-            return this.value === searchValue;
+            return equality(this.value as OptionalElement<T>, searchValue);
         }
     }
 
@@ -636,16 +1262,46 @@ export class Optional<T> {
      * @param condition (function or RegExp): The condition to check against the value inside the Optional object.
      * @returnboolean: Returns true if the value inside the Optional object matches the given condition, otherwise returns false.
      * */
-    match(condition: ((value: T) => boolean) | RegExp): boolean {
-        if (this.isEmpty()) {
-            return false;
-        }
+    match(condition: ((value: T) => boolean) | RegExp): boolean;
 
-        if (typeof condition === "function") {
-            return condition(this.value!);
-        } else {
-            return condition.test(String(this.value));
+    /**
+     * The match method exhaustively handles both variants of the Optional object, calling the `some` case with the
+     * value if it is present, or the `none` case otherwise.
+     *
+     * @example
+     * const greeting = Optional.of(user).match({
+     *     some: user => `Hello, ${user.name}`,
+     *     none: () => "Hello, stranger",
+     * });
+     *
+     * @param cases - An object with a `some` function taking the value and a `none` function.
+     * @return The result of the case matching the Optional variant.
+     * */
+    match<R>(cases: { some: (value: T) => R, none: () => R }): R;
+
+    match<R>(condition: ((value: T) => boolean) | RegExp | { some: (value: T) => R, none: () => R }): boolean | R {
+        if (typeof condition === "function" || condition instanceof RegExp) {
+            if (this.isEmpty()) {
+                return false;
+            }
+            return typeof condition === "function" ? condition(this.value!) : condition.test(String(this.value));
         }
+        return this.isPresent() ? condition.some(this.value) : condition.none();
+    }
+
+    /**
+     * The fold method reduces the Optional object to a single value, by applying the onSome function to the value if
+     * it is present, or by calling the onNone function otherwise.
+     *
+     * @example
+     * const label = Optional.of(user).fold(() => "Anonymous", user => user.name);
+     *
+     * @param onNone - A function that returns the result if the Optional object is empty.
+     * @param onSome - A function that takes the value and returns the result if the Optional object is present.
+     * @return The result of onSome if the value is present, or the result of onNone otherwise.
+     * */
+    fold<R>(onNone: () => R, onSome: (value: T) => R): R {
+        return this.isPresent() ? onSome(this.value) : onNone();
     }
 
     /**
@@ -664,9 +1320,9 @@ export class Optional<T> {
     run<R>(callback: (value: T) => R, defaultProvider?: () => R): Optional<R> {
         if (this.isPresent()) {
             const result = callback(this.value as T);
-            return Optional.of(result);
+            return this.traceStep("run", Optional.of(result));
         }
-        return defaultProvider ? Optional.of(defaultProvider()) : Optional.empty();
+        return this.traceStep("run", defaultProvider ? Optional.of(defaultProvider()) : Optional.empty());
     }
 
     /**
@@ -740,9 +1396,28 @@ export class Optional<T> {
     }
 
     /**
-     * Compares the current Optional with another Optional for equality.
+     * The toAsync method converts the Optional into an AsyncOptional, allowing further transformations to be chained
+     * with asynchronous callbacks.
+     *
+     * @example
+     * const profile = await Optional.of(userId)
+     *     .toAsync()
+     *     .map(id => userRepository.findById(id))
+     *     .map(user => user.profile);
+     *
+     * @return An AsyncOptional resolving to this Optional.
+     * */
+    toAsync(): AsyncOptional<T> {
+        return AsyncOptional.from(this);
+    }
+
+    /**
+     * Compares the current Optional with another Optional for equality. Values are compared using
+     * {@link Equality.equals}, which respects `equals` methods and falls back to structural equality, unless a custom
+     * equality function is provided.
      *
      * @param {Optional<U>} other - The Optional to compare with.
+     * @param {InlineEquality<T | U>} equality - The function used to compare values. Defaults to structural equality.
      * @returns {boolean} true if the two Optionals are equal, false otherwise.
      *
      * @example
@@ -754,13 +1429,214 @@ export class Optional<T> {
      * console.log(optional1.equals(optional3)); // false (contain different values)
      * console.log(optional1.equals(Optional.empty())); // false (one is non-empty, the other is empty)
      * console.log(Optional.empty().equals(Optional.empty())); // true (both are empty)
+     * console.log(Optional.of({a: 1}).equals(Optional.of({a: 1}))); // true (structurally equal values)
+     * console.log(Optional.of("a").equals(Optional.of("A"), (a, b) => a.toLowerCase() === b.toLowerCase())); // true
      */
-    equals<U>(other: Optional<U>): boolean {
-        if (typeof this.value === typeof other.value) {
-            return this.value === other.value as unknown as T;
+    equals<U>(other: Optional<U>, equality: InlineEquality<T | U> = Equality.equals): boolean {
+        if (this.isEmpty() || other.isEmpty()) {
+            return this.isEmpty() && other.isEmpty();
         }
+        return equality(this.value!, other.value!);
+    }
+
+    /**
+     * Makes the Optional iterable as a collection of zero or one element, so it can be used with `for...of`, the spread
+     * operator or `Array.from`.
+     *
+     * @example
+     * for (const name of Optional.of("Manuel")) {
+     *     console.log(name); // Output: "Manuel"
+     * }
+     * console.log([...Optional.empty()]); // Output: []
+     *
+     * @return A generator that yields the value if it is present.
+     * */
+    *[Symbol.iterator](): Generator<T, void, unknown> {
+        if (this.isPresent()) {
+            yield this.value!;
+        }
+    }
+
+    /**
+     * Unwraps the Optional inside {@link Optional.gen} and {@link Optional.genAsync} when used with `yield*`.
+     *
+     * @example
+     * const total = Optional.gen(function* () {
+     *     const price = yield* findPrice(productId).bind();
+     *     return price * quantity;
+     * });
+     *
+     * @return A generator that yields this Optional to the enclosing do-notation and returns its value.
+     * */
+    *bind(): Generator<Optional<T>, T, unknown> {
+        return (yield this) as T;
+    }
+
+    /**
+     * The toArray method converts the Optional into an array of zero or one element.
+     *
+     * @example
+     * console.log(Optional.of(5).toArray()); // Output: [5]
+     * console.log(Optional.empty().toArray()); // Output: []
+     *
+     * @return An array containing the value if it is present, or an empty array otherwise.
+     * */
+    toArray(): T[] {
+        return this.isPresent() ? [this.value!] : [];
+    }
+
+    /**
+     * The toSet method converts the Optional into a set of zero or one element.
+     *
+     * @example
+     * console.log(Optional.of(5).toSet()); // Output: Set(1) {5}
+     *
+     * @return A Set containing the value if it is present, or an empty Set otherwise.
+     * */
+    toSet(): Set<T> {
+        return new Set(this.toArray());
+    }
+
+    /**
+     * The toResult method converts the Optional into a Result, using the provided error when the Optional is empty.
+     *
+     * @example
+     * const user = optionalOf(repository.find(id)).toResult(() => new NoSuchElementError(`User ${id} not found`));
+     *
+     * @param errorProvider - A function that returns the error of the Result if the Optional is empty.
+     * @return An Ok with the value if it is present, or an Err with the provided error otherwise.
+     * */
+    toResult<E>(errorProvider: () => E): Result<T, E> {
+        return this.isPresent() ? Ok.ok(this.value!) : Err.error(errorProvider());
+    }
+
+    /**
+     * The toEither method converts the Optional into an Either, using the provided left value when the Optional is empty.
+     *
+     * @example
+     * const port = optionalOf(process.env.PORT).toEither(() => "PORT is not defined");
+     *
+     * @param leftProvider - A function that returns the left value if the Optional is empty.
+     * @return A Right with the value if it is present, or a Left with the provided value otherwise.
+     * */
+    toEither<L>(leftProvider: () => L): Either<L, T> {
+        return this.isPresent() ? Right.right(this.value!) : Left.left(leftProvider());
+    }
+
+    /**
+     * The traced method starts tracing the provenance of this Optional under the given label, even if tracing is not
+     * globally enabled. Every following operation is counted, and the operation that makes the Optional empty is
+     * recorded.
+     *
+     * @example
+     * const city = Optional.of(user).traced("userCity")
+     *     .map(u => u.address)
+     *     .map(a => a.city);
+     * console.log(city.trace()); // Output: { label: "userCity", step: 2, emptiedAt: 1, operation: "map" }
+     *
+     * @param label - A label identifying the traced chain in traces and error messages.
+     * @return A copy of this Optional with a fresh trace.
+     * */
+    traced(label: string): Optional<T> {
+        return this.withTracing(this.isEmpty() ? {label, step: 0, emptiedAt: 0, operation: "traced"} : {label, step: 0});
+    }
+
+    /**
+     * The trace method returns the provenance recorded for this Optional.
+     *
+     * @return The trace of this Optional, or undefined if it is not traced.
+     * */
+    trace(): OptionalTrace | undefined {
+        return this.tracing;
+    }
+
+    private traceStep<U>(operation: string, result: Optional<U>): Optional<U> {
+        if (this.tracing === undefined) {
+            return result;
+        }
+        const step = this.tracing.step + 1;
+        const {label, emptiedAt} = this.tracing;
+        if (result.isPresent()) {
+            return result.withTracing({label, step});
+        }
+        return result.withTracing(emptiedAt !== undefined
+            ? {label, step, emptiedAt, operation: this.tracing.operation}
+            : {label, step, emptiedAt: step, operation});
+    }
+
+    private withTracing(tracing: OptionalTrace): Optional<T> {
+        const optional: Optional<T> = this.isPresent() ? new Some(this.value) : new None(this.raw());
+        optional.tracing = tracing;
+        return optional;
+    }
+}
+
+/**
+ * Represents a present value of an Optional.
+ * @template T - The type of the value.
+ */
+export class Some<T> extends Optional<T> {
+    declare readonly value: T;
+
+    constructor(value: T) {
+        super(value);
+    }
+
+    isPresent(): this is Some<T> {
+        return true;
+    }
+
+    isEmpty(): this is None {
+        return false;
+    }
+
+    /**
+     * Retrieves the value, which is always present.
+     * @returns {T} - The value.
+     */
+    get(): T {
+        return this.value;
+    }
+}
+
+/**
+ * Represents the absence of a value in an Optional.
+ */
+export class None extends Optional<never> {
+    /**
+     * @param original - The value considered absent when this Optional was created, which is only exposed by raw().
+     */
+    constructor(private readonly original?: unknown) {
+        super(undefined as never);
+    }
+
+    raw(): never {
+        return (this.original ?? undefined) as never;
+    }
+
+    isPresent(): this is Some<never> {
         return false;
     }
+
+    isEmpty(): this is None {
+        return true;
+    }
+
+    /**
+     * Always throws, since there is no value. When this Optional is traced, the message tells where it became empty.
+     * @throws {NoSuchElementError} - An error indicating that the value is not present.
+     */
+    get(): never {
+        throw new NoSuchElementError(`Value is not present${None.describe(this.tracing)}`);
+    }
+
+    private static describe(trace?: OptionalTrace): string {
+        if (trace?.emptiedAt === undefined) {
+            return "";
+        }
+        const chain = trace.label !== undefined ? ` of '${trace.label}'` : "";
+        return ` (emptied by '${trace.operation}' at step ${trace.emptiedAt}${chain})`;
+    }
 }
 
 declare global {
@@ -0,0 +1,174 @@
+import {NoSuchElementError} from "./errors";
+
+/**
+ * The IntProgression class represents an arithmetic progression of integers, from a first element towards a last one
+ * by a non-zero step. Unlike {@link Range.rangeTo}, it does not materialize its elements: it only keeps its bounds, so
+ * its size, its elements and its membership are computed in constant time, and it can be iterated lazily.
+ *
+ * @example
+ * const progression = IntProgression.fromClosedRange(0, 1e9);
+ * console.log(progression.size()); // Output: 1000000001
+ * console.log(progression.contains(42)); // Output: true
+ *
+ * for (const value of IntProgression.fromClosedRange(1, 10).step(3).reversed()) {
+ *     console.log(value); // Output: 10, 7, 4, 1
+ * }
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class IntProgression implements Iterable<number> {
+
+    private constructor(
+        private readonly firstElement: number,
+        private readonly lastElement: number,
+        private readonly increment: number
+    ) {
+    }
+
+    /**
+     * Creates a progression from `start` towards `end` (inclusive) by the given step. The last element is the
+     * closest element to `end` that can be reached from `start`. A positive step with `start` greater than `end`, or a
+     * negative step with `start` lower than `end`, results in an empty progression.
+     * @param {number} start - The first element of the progression.
+     * @param {number} end - The bound of the progression (inclusive).
+     * @param {number} [step=1] - The step between elements. Defaults to 1.
+     * @returns {IntProgression} The progression.
+     * @throws {Error} If one of the arguments is not an integer, or the step is zero.
+     * @example
+     * const progression = IntProgression.fromClosedRange(1, 10, 4);
+     * console.log(progression.toArray()); // Output: [1, 5, 9]
+     */
+    static fromClosedRange(start: number, end: number, step: number = 1): IntProgression {
+        for (const [name, value] of [["Start", start], ["End", end], ["Step", step]] as const) {
+            if (!Number.isSafeInteger(value)) {
+                throw new Error(`${name} must be an integer, got ${value}`);
+            }
+        }
+        if (step === 0) {
+            throw new Error("Step must be non-zero");
+        }
+        return new IntProgression(start, IntProgression.lastElementOf(start, end, step), step);
+    }
+
+    /**
+     * Checks if the progression has no elements.
+     * @returns {boolean} True if the progression is empty, false otherwise.
+     */
+    isEmpty(): boolean {
+        return this.increment > 0 ? this.firstElement > this.lastElement : this.firstElement < this.lastElement;
+    }
+
+    /**
+     * Returns the number of elements of the progression, without iterating it.
+     * @returns {number} The number of elements.
+     */
+    size(): number {
+        return this.isEmpty() ? 0 : (this.lastElement - this.firstElement) / this.increment + 1;
+    }
+
+    /**
+     * Returns the first element of the progression.
+     * @returns {number} The first element.
+     * @throws {NoSuchElementError} If the progression is empty.
+     */
+    first(): number {
+        if (this.isEmpty()) {
+            throw new NoSuchElementError("Progression is empty");
+        }
+        return this.firstElement;
+    }
+
+    /**
+     * Returns the last element of the progression.
+     * @returns {number} The last element.
+     * @throws {NoSuchElementError} If the progression is empty.
+     */
+    last(): number {
+        if (this.isEmpty()) {
+            throw new NoSuchElementError("Progression is empty");
+        }
+        return this.lastElement;
+    }
+
+    /**
+     * Checks if a value is an element of the progression, without iterating it.
+     * @param {number} value - The value to check.
+     * @returns {boolean} True if the value is an element of the progression, false otherwise.
+     */
+    contains(value: number): boolean {
+        if (!Number.isInteger(value) || this.isEmpty()) {
+            return false;
+        }
+        const min = Math.min(this.firstElement, this.lastElement);
+        const max = Math.max(this.firstElement, this.lastElement);
+        return value >= min && value <= max && (value - this.firstElement) % this.increment === 0;
+    }
+
+    /**
+     * Returns the element at the given index, like {@link Array.at}. Negative indexes count back from the last element.
+     * @param {number} index - The index of the element.
+     * @returns {number | undefined} The element, or undefined if the index is out of bounds.
+     */
+    at(index: number): number | undefined {
+        const size = this.size();
+        const position = index < 0 ? size + index : index;
+        if (!Number.isInteger(position) || position < 0 || position >= size) {
+            return undefined;
+        }
+        return this.firstElement + position * this.increment;
+    }
+
+    /**
+     * Returns a progression with the same elements in reverse order.
+     * @returns {IntProgression} The reversed progression.
+     */
+    reversed(): IntProgression {
+        return new IntProgression(this.lastElement, this.firstElement, -this.increment);
+    }
+
+    /**
+     * Returns a progression with the same first element and direction, and the given step.
+     * @param {number} step - The new step, which must be a positive integer.
+     * @returns {IntProgression} The progression with the new step.
+     * @throws {Error} If the step is not a positive integer.
+     * @example
+     * const progression = IntProgression.fromClosedRange(10, 0, -1).step(5);
+     * console.log(progression.toArray()); // Output: [10, 5, 0]
+     */
+    step(step: number): IntProgression {
+        if (!Number.isSafeInteger(step) || step <= 0) {
+            throw new Error(`Step must be a positive integer, got ${step}`);
+        }
+        return IntProgression.fromClosedRange(this.firstElement, this.lastElement, this.increment > 0 ? step : -step);
+    }
+
+    /**
+     * Materializes the elements of the progression into an array.
+     * @returns {number[]} The elements of the progression.
+     */
+    toArray(): number[] {
+        return Array.from({length: this.size()}, (_, index) => this.firstElement + index * this.increment);
+    }
+
+    /**
+     * Iterates the elements of the progression lazily, computing each of them on demand.
+     * @returns {Iterator<number>} An iterator over the elements.
+     */
+    *[Symbol.iterator](): Iterator<number> {
+        for (let index = 0, size = this.size(); index < size; index++) {
+            yield this.firstElement + index * this.increment;
+        }
+    }
+
+    private static lastElementOf(start: number, end: number, step: number): number {
+        if (step > 0) {
+            return start >= end ? end : end - IntProgression.mod(end - start, step);
+        }
+        return start <= end ? end : end + IntProgression.mod(start - end, -step);
+    }
+
+    private static mod(dividend: number, divisor: number): number {
+        return ((dividend % divisor) + divisor) % divisor;
+    }
+}
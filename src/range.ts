@@ -1,3 +1,24 @@
+import {IntProgression} from "./progression";
+import {Comparable, Comparator} from "./compare";
+import {NoSuchElementError} from "./errors";
+import "./compare";
+
+/**
+ * The type of a bound of a {@link Range}: a closed bound includes its endpoint, while an open bound excludes it.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type BoundType = "open" | "closed";
+
+// A position between the values of a Range: right below or above a value, or beyond every value
+type Cut<T> = { kind: "belowAll" } | { kind: "aboveAll" } | { kind: "value", value: T, above: boolean };
+
+// Orders the values by their compareTo method, which the overloads without a comparator require
+const naturalOrder: Comparator<unknown> = {
+    compare: (a, b) => (a as Comparable<unknown>).compareTo(b)
+};
+
 /**
  * The Range class provides utility methods for working with numeric ranges. It allows you to generate a range of numbers,
  * check if a value is within a specified range, and create aliases for the range methods.
@@ -9,23 +30,60 @@
  * const isInRange = Range.inRange(3, 1, 5);
  * console.log(isInRange); // Output: true
  *
+ * const lazyRange = Range.progressionTo(1, 1e9);
+ * console.log(lazyRange.contains(42)); // Output: true
+ *
+ * A Range instance is an interval over {@link Comparable} values, such as numbers, strings, Dates, Durations or
+ * BigInts, or over any value ordered by a {@link Comparator}. Each of its ends can be closed, open or unbounded.
+ *
+ * @example
+ * const workingHours = Range.closedOpen(9, 17);
+ * console.log(workingHours.contains(17)); // Output: false
+ *
+ * const q1 = Range.closedOpen(new Date("2024-01-01"), new Date("2024-04-01"));
+ * const overlap = q1.intersect(Range.atLeast(new Date("2024-03-15"))); // [2024-03-15..2024-04-01)
+ *
+ * const byLength = Range.closed("ab", "abcd", {compare: (a, b) => a.length - b.length});
+ * console.log(byLength.contains("xyz")); // Output: true
+ *
+ * @template T - The type of the values of the range.
+ *
  * @since version 1.0.4
  * @author Manuel Santos <ney.br.santos@gmail.com>
  */
-export class Range {
+export class Range<T = number> {
+    private static readonly TOLERANCE = 1e-9;
+
+    private static readonly MAX_LENGTH = 2 ** 32 - 1;
+
+    private constructor(
+        private readonly lower: Cut<T>,
+        private readonly upper: Cut<T>,
+        private readonly comparator: Comparator<T>
+    ) {
+        if (this.compareCuts(lower, upper) > 0) {
+            throw new Error(`Invalid range ${this}: the lower bound is greater than the upper bound`);
+        }
+    }
+
     /**
      * Creates an array representing a range of numbers from `start` to `end` (inclusive) with an optional step.
+     * A negative step creates a descending range, and a step going away from `end` creates an empty range. Each number
+     * is computed from its index, so fractional steps do not accumulate floating-point errors.
      * @param {number} start - The start of the range.
      * @param {number} end - The end of the range.
      * @param {number} [step=1] - The step between elements. Defaults to 1.
      * @returns {ReadonlyArray<number>} An array representing the range of numbers.
+     * @throws {Error} If one of the arguments is not a finite number, or the step is zero.
      * @example
      * const numericRange = Ranges.range(1, 5, 2);
      * console.log(numericRange); // Output: [1, 3, 5]
+     *
+     * const fractionalRange = Ranges.range(0, 0.3, 0.1);
+     * console.log(fractionalRange); // Output: [0, 0.1, 0.2, 0.3]
      */
     static range(start: number, end: number, step: number = 1): ReadonlyArray<number> {
-        const length = Math.floor((end - start) / step) + 1;
-        return Array.from({length}, (_, index) => start + index * step);
+        return Range.sequence(start, end, step, true);
     }
 
     /**
@@ -35,6 +93,7 @@ export class Range {
      * @param {number} end - The end of the range.
      * @param {number} [step=1] - The step between elements. Defaults to 1.
      * @returns {ReadonlyArray<number>} An array representing the range of numbers.
+     * @throws {Error} If one of the arguments is not a finite number, or the step is zero.
      * @example
      * const numericRange = Ranges.rangeTo(1, 5, 2);
      * console.log(numericRange); // Output: [1, 3, 5]
@@ -44,17 +103,90 @@ export class Range {
     }
 
     /**
-     * Creates an array representing a range of numbers from `start` to (end - 1) with an optional step.
+     * Creates an array representing a range of numbers from `start` to `end` (exclusive) with an optional step.
      * @param {number} start - The start of the range.
      * @param {number} end - The end of the range.
      * @param {number} [step=1] - The step between elements. Defaults to 1.
      * @returns {ReadonlyArray<number>} An array representing the range of numbers.
+     * @throws {Error} If one of the arguments is not a finite number, or the step is zero.
      * @example
      * const numericRange = Ranges.rangeUntil(1, 5, 2);
      * console.log(numericRange); // Output: [1, 3]
      */
     static rangeUntil(start: number, end: number, step: number = 1): ReadonlyArray<number> {
-        return Range.range(start, end - 1, step);
+        return Range.sequence(start, end, step, false);
+    }
+
+    /**
+     * Creates an array representing a descending range of numbers from `start` down to `end` (inclusive).
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The positive distance between elements. Defaults to 1.
+     * @returns {ReadonlyArray<number>} An array representing the range of numbers.
+     * @throws {Error} If one of the arguments is not a finite number, or the step is not positive.
+     * @example
+     * const numericRange = Ranges.downTo(5, 1, 2);
+     * console.log(numericRange); // Output: [5, 3, 1]
+     */
+    static downTo(start: number, end: number, step: number = 1): ReadonlyArray<number> {
+        if (step <= 0) {
+            throw new Error(`Step must be positive, got ${step}`);
+        }
+        return Range.range(start, end, -step);
+    }
+
+    /**
+     * Creates an array of `count` evenly spaced numbers from `start` to `end`, both included.
+     * @param {number} start - The first number.
+     * @param {number} end - The last number.
+     * @param {number} count - The number of elements.
+     * @returns {ReadonlyArray<number>} An array of evenly spaced numbers.
+     * @throws {Error} If the bounds are not finite numbers, or the count is not a non-negative integer.
+     * @example
+     * const samples = Ranges.linspace(0, 1, 5);
+     * console.log(samples); // Output: [0, 0.25, 0.5, 0.75, 1]
+     */
+    static linspace(start: number, end: number, count: number): ReadonlyArray<number> {
+        Range.requireFinite("Start", start);
+        Range.requireFinite("End", end);
+        if (!Number.isSafeInteger(count) || count < 0) {
+            throw new Error(`Count must be a non-negative integer, got ${count}`);
+        }
+        if (count === 1) {
+            return [start];
+        }
+        return Array.from({length: count}, (_, index) =>
+            index === count - 1 ? end : start + (end - start) * index / (count - 1));
+    }
+
+    /**
+     * Creates a lazy progression of integers from `start` to `end` (inclusive) with an optional step. Unlike
+     * `rangeTo`, the numbers are not materialized into an array.
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The step between elements. Defaults to 1.
+     * @returns {IntProgression} A progression of the numbers of the range.
+     * @example
+     * const progression = Range.progressionTo(1, 5, 2);
+     * console.log([...progression]); // Output: [1, 3, 5]
+     */
+    static progressionTo(start: number, end: number, step: number = 1): IntProgression {
+        return IntProgression.fromClosedRange(start, end, step);
+    }
+
+    /**
+     * Creates a lazy progression of integers from `start` to `end` (exclusive) with an optional step. Unlike
+     * `rangeUntil`, the numbers are not materialized into an array.
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The step between elements. Defaults to 1.
+     * @returns {IntProgression} A progression of the numbers of the range.
+     * @example
+     * const progression = Range.progressionUntil(1, 5, 2);
+     * console.log([...progression]); // Output: [1, 3]
+     */
+    static progressionUntil(start: number, end: number, step: number = 1): IntProgression {
+        return IntProgression.fromClosedRange(start, step > 0 ? end - 1 : end + 1, step);
     }
 
     /**
@@ -70,6 +202,378 @@ export class Range {
     static inRange(value: number, start: number, end: number): boolean {
         return value >= start && value <= end;
     }
+
+    /**
+     * Creates a range of the values between `lower` and `upper`, both included: `[lower..upper]`.
+     * @param {T} lower - The lower endpoint.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values. Required for values that are not
+     * {@link Comparable}.
+     * @returns {Range<T>} The range.
+     * @throws {Error} If the lower endpoint is greater than the upper endpoint.
+     * @example
+     * const range = Range.closed("a", "m");
+     * console.log(range.contains("kiwi")); // Output: true
+     */
+    static closed<T extends Comparable<T>>(lower: T, upper: T): Range<T>;
+    static closed<T>(lower: T, upper: T, comparator: Comparator<T>): Range<T>;
+    static closed<T>(lower: T, upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.below(lower), Range.above(upper), comparator);
+    }
+
+    /**
+     * Creates a range of the values between `lower` and `upper`, both excluded: `(lower..upper)`.
+     * @param {T} lower - The lower endpoint.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     * @throws {Error} If the lower endpoint is not lower than the upper endpoint.
+     */
+    static open<T extends Comparable<T>>(lower: T, upper: T): Range<T>;
+    static open<T>(lower: T, upper: T, comparator: Comparator<T>): Range<T>;
+    static open<T>(lower: T, upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.above(lower), Range.below(upper), comparator);
+    }
+
+    /**
+     * Creates a range of the values from `lower`, included, to `upper`, excluded: `[lower..upper)`.
+     * @param {T} lower - The lower endpoint.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     * @throws {Error} If the lower endpoint is greater than the upper endpoint.
+     */
+    static closedOpen<T extends Comparable<T>>(lower: T, upper: T): Range<T>;
+    static closedOpen<T>(lower: T, upper: T, comparator: Comparator<T>): Range<T>;
+    static closedOpen<T>(lower: T, upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.below(lower), Range.below(upper), comparator);
+    }
+
+    /**
+     * Creates a range of the values from `lower`, excluded, to `upper`, included: `(lower..upper]`.
+     * @param {T} lower - The lower endpoint.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     * @throws {Error} If the lower endpoint is greater than the upper endpoint.
+     */
+    static openClosed<T extends Comparable<T>>(lower: T, upper: T): Range<T>;
+    static openClosed<T>(lower: T, upper: T, comparator: Comparator<T>): Range<T>;
+    static openClosed<T>(lower: T, upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.above(lower), Range.above(upper), comparator);
+    }
+
+    /**
+     * Creates a range of the values greater than or equal to `lower`: `[lower..+∞)`.
+     * @param {T} lower - The lower endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static atLeast<T extends Comparable<T>>(lower: T): Range<T>;
+    static atLeast<T>(lower: T, comparator: Comparator<T>): Range<T>;
+    static atLeast<T>(lower: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.below(lower), {kind: "aboveAll"}, comparator);
+    }
+
+    /**
+     * Creates a range of the values strictly greater than `lower`: `(lower..+∞)`.
+     * @param {T} lower - The lower endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static greaterThan<T extends Comparable<T>>(lower: T): Range<T>;
+    static greaterThan<T>(lower: T, comparator: Comparator<T>): Range<T>;
+    static greaterThan<T>(lower: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.above(lower), {kind: "aboveAll"}, comparator);
+    }
+
+    /**
+     * Creates a range of the values lower than or equal to `upper`: `(-∞..upper]`.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static atMost<T extends Comparable<T>>(upper: T): Range<T>;
+    static atMost<T>(upper: T, comparator: Comparator<T>): Range<T>;
+    static atMost<T>(upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>({kind: "belowAll"}, Range.above(upper), comparator);
+    }
+
+    /**
+     * Creates a range of the values strictly lower than `upper`: `(-∞..upper)`.
+     * @param {T} upper - The upper endpoint.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static lessThan<T extends Comparable<T>>(upper: T): Range<T>;
+    static lessThan<T>(upper: T, comparator: Comparator<T>): Range<T>;
+    static lessThan<T>(upper: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>({kind: "belowAll"}, Range.below(upper), comparator);
+    }
+
+    /**
+     * Creates a range containing every value: `(-∞..+∞)`.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static all<T extends Comparable<T>>(): Range<T>;
+    static all<T>(comparator: Comparator<T>): Range<T>;
+    static all<T>(comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>({kind: "belowAll"}, {kind: "aboveAll"}, comparator);
+    }
+
+    /**
+     * Creates a range containing a single value: `[value..value]`.
+     * @param {T} value - The value.
+     * @param {Comparator<T>} [comparator] - The comparator ordering the values.
+     * @returns {Range<T>} The range.
+     */
+    static singleton<T extends Comparable<T>>(value: T): Range<T>;
+    static singleton<T>(value: T, comparator: Comparator<T>): Range<T>;
+    static singleton<T>(value: T, comparator: Comparator<T> = naturalOrder): Range<T> {
+        return new Range<T>(Range.below(value), Range.above(value), comparator);
+    }
+
+    /**
+     * Checks if the range has a lower endpoint.
+     * @returns {boolean} True if the range is bounded below, false otherwise.
+     */
+    hasLowerBound(): boolean {
+        return this.lower.kind === "value";
+    }
+
+    /**
+     * Checks if the range has an upper endpoint.
+     * @returns {boolean} True if the range is bounded above, false otherwise.
+     */
+    hasUpperBound(): boolean {
+        return this.upper.kind === "value";
+    }
+
+    /**
+     * Returns the lower endpoint of the range.
+     * @returns {T} The lower endpoint.
+     * @throws {NoSuchElementError} If the range is unbounded below.
+     */
+    lowerEndpoint(): T {
+        return Range.boundOf(this.lower, "lower").value;
+    }
+
+    /**
+     * Returns the upper endpoint of the range.
+     * @returns {T} The upper endpoint.
+     * @throws {NoSuchElementError} If the range is unbounded above.
+     */
+    upperEndpoint(): T {
+        return Range.boundOf(this.upper, "upper").value;
+    }
+
+    /**
+     * Returns whether the lower endpoint is included in the range.
+     * @returns {BoundType} "closed" if the lower endpoint is included, "open" otherwise.
+     * @throws {NoSuchElementError} If the range is unbounded below.
+     */
+    lowerBoundType(): BoundType {
+        return Range.boundOf(this.lower, "lower").above ? "open" : "closed";
+    }
+
+    /**
+     * Returns whether the upper endpoint is included in the range.
+     * @returns {BoundType} "closed" if the upper endpoint is included, "open" otherwise.
+     * @throws {NoSuchElementError} If the range is unbounded above.
+     */
+    upperBoundType(): BoundType {
+        return Range.boundOf(this.upper, "upper").above ? "closed" : "open";
+    }
+
+    /**
+     * Compares two values with the order of the range, given by their compareTo method or by the comparator the
+     * range was created with.
+     * @param {T} a - The first value to compare.
+     * @param {T} b - The second value to compare.
+     * @returns {number} A negative number if `a` is lower than `b`, zero if they are equal, or a positive number otherwise.
+     * @example
+     * const range = Range.closed("b", "d", {compare: (a, b) => a.localeCompare(b)});
+     * console.log(range.compareValues("a", "c") < 0); // Output: true
+     */
+    compareValues(a: T, b: T): number {
+        return this.comparator.compare(a, b);
+    }
+
+    /**
+     * Checks if a value is within the range.
+     * @param {T} value - The value to check.
+     * @returns {boolean} True if the value is within the range, false otherwise.
+     * @example
+     * const range = Range.openClosed(Duration.minutes(5), Duration.hours(1));
+     * console.log(range.contains(Duration.minutes(30))); // Output: true
+     */
+    contains(value: T): boolean {
+        return this.isCutBelow(this.lower, value) && !this.isCutBelow(this.upper, value);
+    }
+
+    /**
+     * Checks if the range contains no value, such as `[a..a)` or `(a..a]`.
+     * @returns {boolean} True if the range is empty, false otherwise.
+     */
+    isEmpty(): boolean {
+        return this.compareCuts(this.lower, this.upper) === 0;
+    }
+
+    /**
+     * Checks if every value of another range is within this range.
+     * @param {Range<T>} other - The other range.
+     * @returns {boolean} True if this range encloses the other range, false otherwise.
+     * @example
+     * console.log(Range.closed(1, 10).encloses(Range.open(3, 5))); // Output: true
+     * console.log(Range.open(1, 10).encloses(Range.closed(1, 5))); // Output: false
+     */
+    encloses(other: Range<T>): boolean {
+        return this.compareCuts(this.lower, other.lower) <= 0 && this.compareCuts(this.upper, other.upper) >= 0;
+    }
+
+    /**
+     * Checks if there is a range, possibly empty, enclosed by both this range and another range. Overlapping ranges
+     * are connected, and so are adjacent ranges such as `[1..3)` and `[3..5]`.
+     * @param {Range<T>} other - The other range.
+     * @returns {boolean} True if the ranges are connected, false otherwise.
+     */
+    isConnected(other: Range<T>): boolean {
+        return this.compareCuts(this.lower, other.upper) <= 0 && this.compareCuts(other.lower, this.upper) <= 0;
+    }
+
+    /**
+     * Returns the largest range enclosed by both this range and another range.
+     * @param {Range<T>} other - The other range, which must be connected to this range.
+     * @returns {Range<T>} The intersection of the ranges, which is empty if they are only adjacent.
+     * @throws {Error} If the ranges are not connected.
+     * @example
+     * const overlap = Range.closed(1, 5).intersect(Range.open(3, 8)); // (3..5]
+     */
+    intersect(other: Range<T>): Range<T> {
+        if (!this.isConnected(other)) {
+            throw new Error(`Ranges ${this} and ${other} are not connected`);
+        }
+        const lower = this.compareCuts(this.lower, other.lower) >= 0 ? this.lower : other.lower;
+        const upper = this.compareCuts(this.upper, other.upper) <= 0 ? this.upper : other.upper;
+        return new Range<T>(lower, upper, this.comparator);
+    }
+
+    /**
+     * Returns the smallest range enclosing both this range and another range.
+     * @param {Range<T>} other - The other range.
+     * @returns {Range<T>} The span of the ranges, which also encloses the values between them.
+     * @example
+     * const span = Range.closed(1, 3).span(Range.open(5, 8)); // [1..8)
+     */
+    span(other: Range<T>): Range<T> {
+        const lower = this.compareCuts(this.lower, other.lower) <= 0 ? this.lower : other.lower;
+        const upper = this.compareCuts(this.upper, other.upper) >= 0 ? this.upper : other.upper;
+        return new Range<T>(lower, upper, this.comparator);
+    }
+
+    /**
+     * Returns the range between this range and another range that does not overlap it.
+     * @param {Range<T>} other - The other range.
+     * @returns {Range<T>} The range of the values between both ranges, which is empty if they are adjacent.
+     * @throws {Error} If the ranges overlap.
+     * @example
+     * const gap = Range.closed(1, 3).gap(Range.open(5, 8)); // (3..5]
+     */
+    gap(other: Range<T>): Range<T> {
+        if (this.compareCuts(this.lower, other.upper) < 0 && this.compareCuts(other.lower, this.upper) < 0) {
+            throw new Error(`Ranges ${this} and ${other} overlap`);
+        }
+        const lower = this.compareCuts(this.upper, other.upper) <= 0 ? this.upper : other.upper;
+        const upper = this.compareCuts(this.lower, other.lower) >= 0 ? this.lower : other.lower;
+        return new Range<T>(lower, upper, this.comparator);
+    }
+
+    /**
+     * Returns the string representation of the range, using the interval notation.
+     * @returns {string} The range, such as `[1..5)` or `(-∞..0]`.
+     */
+    toString(): string {
+        const lower = this.lower.kind === "value"
+            ? `${this.lower.above ? "(" : "["}${this.lower.value}`
+            : "(-∞";
+        const upper = this.upper.kind === "value"
+            ? `${this.upper.value}${this.upper.above ? "]" : ")"}`
+            : "+∞)";
+        return `${lower}..${upper}`;
+    }
+
+    private compareCuts(a: Cut<T>, b: Cut<T>): number {
+        if (a.kind === b.kind && a.kind !== "value") {
+            return 0;
+        }
+        if (a.kind === "belowAll" || b.kind === "aboveAll") {
+            return -1;
+        }
+        if (a.kind === "aboveAll" || b.kind === "belowAll") {
+            return 1;
+        }
+        const result = this.comparator.compare(a.value, b.value);
+        return result !== 0 ? result : Number(a.above) - Number(b.above);
+    }
+
+    private isCutBelow(cut: Cut<T>, value: T): boolean {
+        if (cut.kind !== "value") {
+            return cut.kind === "belowAll";
+        }
+        const result = this.comparator.compare(cut.value, value);
+        return result < 0 || (result === 0 && !cut.above);
+    }
+
+    private static below<T>(value: T): Cut<T> {
+        return {kind: "value", value, above: false};
+    }
+
+    private static above<T>(value: T): Cut<T> {
+        return {kind: "value", value, above: true};
+    }
+
+    private static boundOf<T>(cut: Cut<T>, side: string): { value: T, above: boolean } {
+        if (cut.kind !== "value") {
+            throw new NoSuchElementError(`Range has no ${side} bound`);
+        }
+        return cut;
+    }
+
+    private static sequence(start: number, end: number, step: number, endInclusive: boolean): ReadonlyArray<number> {
+        Range.requireFinite("Start", start);
+        Range.requireFinite("End", end);
+        Range.requireFinite("Step", step);
+        if (step === 0) {
+            throw new Error("Step must be non-zero");
+        }
+        // Number of steps from start to end, tolerating the rounding error of fractional steps
+        const steps = (end - start) / step;
+        const length = steps < 0 ? 0 : endInclusive
+            ? Math.floor(steps + Range.TOLERANCE) + 1
+            : Math.ceil(steps - Range.TOLERANCE);
+        if (length > Range.MAX_LENGTH) {
+            throw new Error(`Range of ${length} elements is too large to be created, use a progression instead`);
+        }
+        const decimals = Math.max(Range.decimalsOf(start), Range.decimalsOf(step));
+        return Array.from({length}, (_, index) => Range.round(start + index * step, decimals));
+    }
+
+    private static requireFinite(name: string, value: number): void {
+        if (!Number.isFinite(value)) {
+            throw new Error(`${name} must be a finite number, got ${value}`);
+        }
+    }
+
+    private static decimalsOf(value: number): number {
+        const [mantissa, exponent = "0"] = String(value).split("e");
+        const fraction = mantissa.split(".")[1] ?? "";
+        return Math.max(0, fraction.length - Number(exponent));
+    }
+
+    private static round(value: number, decimals: number): number {
+        return decimals === 0 || decimals > 100 ? value : Number(value.toFixed(decimals));
+    }
 }
 
 declare global {
@@ -87,7 +591,7 @@ declare global {
     function rangeTo(start: number, end: number, step?: number): ReadonlyArray<number>;
 
     /**
-     * Creates an array representing a range of numbers from `start` to (end - 1) with an optional step.
+     * Creates an array representing a range of numbers from `start` to `end` (exclusive) with an optional step.
      * @param {number} start - The start of the range.
      * @param {number} end - The end of the range.
      * @param {number} [step=1] - The step between elements. Defaults to 1.
@@ -98,6 +602,42 @@ declare global {
      */
     function rangeUntil(start: number, end: number, step?: number): ReadonlyArray<number>;
 
+    /**
+     * Creates an array representing a descending range of numbers from `start` down to `end` (inclusive).
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The positive distance between elements. Defaults to 1.
+     * @returns {ReadonlyArray<number>} An array representing the range of numbers.
+     * @example
+     * const numericRange = downTo(5, 1, 2);
+     * console.log(numericRange); // Output: [5, 3, 1]
+     */
+    function downTo(start: number, end: number, step?: number): ReadonlyArray<number>;
+
+    /**
+     * Creates a lazy progression of integers from `start` to `end` (inclusive) with an optional step.
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The step between elements. Defaults to 1.
+     * @returns {IntProgression} A progression of the numbers of the range.
+     * @example
+     * const progression = progressionTo(1, 5, 2);
+     * console.log(progression.toArray()); // Output: [1, 3, 5]
+     */
+    function progressionTo(start: number, end: number, step?: number): IntProgression;
+
+    /**
+     * Creates a lazy progression of integers from `start` to `end` (exclusive) with an optional step.
+     * @param {number} start - The start of the range.
+     * @param {number} end - The end of the range.
+     * @param {number} [step=1] - The step between elements. Defaults to 1.
+     * @returns {IntProgression} A progression of the numbers of the range.
+     * @example
+     * const progression = progressionUntil(1, 5, 2);
+     * console.log(progression.toArray()); // Output: [1, 3]
+     */
+    function progressionUntil(start: number, end: number, step?: number): IntProgression;
+
     /**
      * Checks if a value is within the specified numeric range.
      * @param {number} value - The value to check.
@@ -122,6 +662,18 @@ _global.rangeUntil = function (start: number, end: number, step?: number): Reado
     return Range.rangeUntil(start, end, step);
 }
 
+_global.downTo = function (start: number, end: number, step?: number): ReadonlyArray<number> {
+    return Range.downTo(start, end, step);
+}
+
+_global.progressionTo = function (start: number, end: number, step?: number): IntProgression {
+    return Range.progressionTo(start, end, step);
+}
+
+_global.progressionUntil = function (start: number, end: number, step?: number): IntProgression {
+    return Range.progressionUntil(start, end, step);
+}
+
 _global.inRange = function (value: number, start: number, end: number): boolean {
     return Range.inRange(value, start, end);
 }
\ No newline at end of file
@@ -0,0 +1,413 @@
+import {Range} from "./range";
+import {Comparator} from "./compare";
+import {Equality} from "./equality";
+import {NoSuchElementError} from "./errors";
+
+/**
+ * The RangeSet class represents a set of values as a list of disjoint {@link Range} instances. Ranges that overlap or
+ * are adjacent are merged when they are added, so the set always holds the fewest ranges covering its values, in
+ * ascending order. A RangeSet is immutable: adding or removing ranges returns a new RangeSet.
+ *
+ * @template T - The type of the values of the ranges.
+ *
+ * @example
+ * const busy = RangeSet.of(Range.closedOpen(9, 11), Range.closedOpen(10, 12), Range.closedOpen(14, 15));
+ * console.log(busy.toString()); // Output: {[9..12), [14..15)}
+ * console.log(busy.contains(11.5)); // Output: true
+ *
+ * const free = busy.complement(Range.closedOpen(8, 18));
+ * console.log(free.toString()); // Output: {[8..9), [12..14), [15..18)}
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class RangeSet<T = number> implements Iterable<Range<T>> {
+
+    private constructor(private readonly ranges: ReadonlyArray<Range<T>>) {
+    }
+
+    /**
+     * Creates an empty RangeSet.
+     * @returns {RangeSet<T>} The empty RangeSet.
+     */
+    static empty<T = number>(): RangeSet<T> {
+        return new RangeSet<T>([]);
+    }
+
+    /**
+     * Creates a RangeSet holding the values of the given ranges.
+     * @param {Range<T>[]} ranges - The ranges, which can overlap.
+     * @returns {RangeSet<T>} The RangeSet of the merged ranges.
+     */
+    static of<T>(...ranges: Range<T>[]): RangeSet<T> {
+        return ranges.reduce((set, range) => set.add(range), RangeSet.empty<T>());
+    }
+
+    /**
+     * Checks if the RangeSet has no values.
+     * @returns {boolean} True if the RangeSet is empty, false otherwise.
+     */
+    isEmpty(): boolean {
+        return this.ranges.length === 0;
+    }
+
+    /**
+     * Checks if a value is within one of the ranges, using a binary search.
+     * @param {T} value - The value to check.
+     * @returns {boolean} True if the value is in the RangeSet, false otherwise.
+     */
+    contains(value: T): boolean {
+        return indexOfRange(this.ranges, range => range, value) !== -1;
+    }
+
+    /**
+     * Checks if every value of a range is in the RangeSet.
+     * @param {Range<T>} range - The range to check.
+     * @returns {boolean} True if the RangeSet encloses the range, false otherwise.
+     */
+    encloses(range: Range<T>): boolean {
+        return range.isEmpty() || this.ranges.some(existing => existing.encloses(range));
+    }
+
+    /**
+     * Returns the smallest range enclosing every value of the RangeSet.
+     * @returns {Range<T>} The span of the ranges.
+     * @throws {NoSuchElementError} If the RangeSet is empty.
+     */
+    span(): Range<T> {
+        if (this.isEmpty()) {
+            throw new NoSuchElementError("RangeSet is empty");
+        }
+        return this.ranges[0].span(this.ranges[this.ranges.length - 1]);
+    }
+
+    /**
+     * Returns a RangeSet holding the values of this RangeSet and of the given range. The range is merged with the
+     * ranges it overlaps or is adjacent to.
+     * @param {Range<T>} range - The range to add.
+     * @returns {RangeSet<T>} The new RangeSet.
+     * @example
+     * const set = RangeSet.of(Range.closed(1, 3)).add(Range.openClosed(3, 5)); // {[1..5]}
+     */
+    add(range: Range<T>): RangeSet<T> {
+        if (range.isEmpty()) {
+            return this;
+        }
+        let merged = range;
+        const disjoint: Range<T>[] = [];
+        for (const existing of this.ranges) {
+            if (existing.isConnected(merged)) {
+                merged = merged.span(existing);
+            } else {
+                disjoint.push(existing);
+            }
+        }
+        disjoint.splice(insertionIndexOf(disjoint, existing => existing, merged), 0, merged);
+        return new RangeSet<T>(disjoint);
+    }
+
+    /**
+     * Returns a RangeSet without the values of the given range. The ranges it overlaps are trimmed or split.
+     * @param {Range<T>} range - The range to remove.
+     * @returns {RangeSet<T>} The new RangeSet.
+     * @example
+     * const set = RangeSet.of(Range.closed(1, 10)).remove(Range.open(3, 5)); // {[1..3], [5..10]}
+     */
+    remove(range: Range<T>): RangeSet<T> {
+        if (range.isEmpty()) {
+            return this;
+        }
+        return new RangeSet<T>(this.ranges.flatMap(existing => subtract(existing, range)));
+    }
+
+    /**
+     * Returns a RangeSet holding the values of this RangeSet and of another one.
+     * @param {RangeSet<T>} other - The other RangeSet.
+     * @returns {RangeSet<T>} The union of both RangeSets.
+     */
+    union(other: RangeSet<T>): RangeSet<T> {
+        return other.ranges.reduce<RangeSet<T>>((set, range) => set.add(range), this);
+    }
+
+    /**
+     * Returns a RangeSet holding the values that are both in this RangeSet and in another one.
+     * @param {RangeSet<T>} other - The other RangeSet.
+     * @returns {RangeSet<T>} The intersection of both RangeSets.
+     */
+    intersection(other: RangeSet<T>): RangeSet<T> {
+        const ranges = this.ranges.flatMap(range => other.ranges
+            .filter(candidate => range.isConnected(candidate))
+            .map(candidate => range.intersect(candidate)));
+        return RangeSet.of(...ranges);
+    }
+
+    /**
+     * Returns a RangeSet holding the values of the given bounds that are not in this RangeSet. Use {@link Range.all}
+     * as bounds for an unbounded complement.
+     * @param {Range<T>} within - The range of the values to consider.
+     * @returns {RangeSet<T>} The complement of the RangeSet within the bounds.
+     * @example
+     * const free = RangeSet.of(Range.closedOpen(9, 12)).complement(Range.closedOpen(8, 18)); // {[8..9), [12..18)}
+     */
+    complement(within: Range<T>): RangeSet<T> {
+        if (this.isEmpty()) {
+            return RangeSet.of(within);
+        }
+        const first = this.ranges[0];
+        const last = this.ranges[this.ranges.length - 1];
+        const complement = [rangeBelow(first), ...this.gaps(), rangeAbove(last)]
+            .filter((range): range is Range<T> => range !== undefined && range.isConnected(within))
+            .map(range => within.intersect(range));
+        return RangeSet.of(...complement);
+    }
+
+    /**
+     * Returns the ranges between the ranges of the RangeSet, from its lowest to its highest value.
+     * @returns {ReadonlyArray<Range<T>>} The gaps of the RangeSet.
+     * @example
+     * const gaps = RangeSet.of(Range.closed(1, 3), Range.closed(5, 8), Range.atLeast(10)).gaps(); // [(3..5), (8..10)]
+     */
+    gaps(): ReadonlyArray<Range<T>> {
+        return this.ranges.slice(1).map((range, index) => this.ranges[index].gap(range));
+    }
+
+    /**
+     * Returns the disjoint ranges of the RangeSet, in ascending order.
+     * @returns {ReadonlyArray<Range<T>>} The ranges.
+     */
+    asRanges(): ReadonlyArray<Range<T>> {
+        return this.ranges;
+    }
+
+    /**
+     * Iterates the disjoint ranges of the RangeSet, in ascending order.
+     * @returns {Iterator<Range<T>>} An iterator over the ranges.
+     */
+    [Symbol.iterator](): Iterator<Range<T>> {
+        return this.ranges[Symbol.iterator]();
+    }
+
+    /**
+     * Returns the string representation of the RangeSet.
+     * @returns {string} The ranges, such as `{[1..3], (5..8)}`.
+     */
+    toString(): string {
+        return `{${this.ranges.join(", ")}}`;
+    }
+}
+
+/**
+ * The RangeMap class maps disjoint {@link Range} instances of keys to values. Putting a range overwrites the values of
+ * the keys it covers, and a range adjacent to another one with an equal value, according to {@link Equality.equals},
+ * is merged with it. A RangeMap is immutable: putting or removing ranges returns a new RangeMap.
+ *
+ * @template V - The type of the values.
+ * @template K - The type of the keys of the ranges.
+ *
+ * @example
+ * const shipping = RangeMap.empty<string>()
+ *     .put(Range.closedOpen(0, 1), "letter")
+ *     .put(Range.closedOpen(1, 20), "parcel")
+ *     .put(Range.atLeast(20), "freight");
+ * console.log(shipping.get(2.5)); // Output: parcel
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class RangeMap<V, K = number> implements Iterable<readonly [Range<K>, V]> {
+
+    private constructor(private readonly mappings: ReadonlyArray<readonly [Range<K>, V]>) {
+    }
+
+    /**
+     * Creates an empty RangeMap.
+     * @returns {RangeMap<V, K>} The empty RangeMap.
+     */
+    static empty<V, K = number>(): RangeMap<V, K> {
+        return new RangeMap<V, K>([]);
+    }
+
+    /**
+     * Creates a RangeMap from entries of ranges and values. Later entries overwrite the keys of earlier ones.
+     * @param {[Range<K>, V][]} entries - The ranges and their values.
+     * @returns {RangeMap<V, K>} The RangeMap of the entries.
+     */
+    static of<V, K>(...entries: (readonly [Range<K>, V])[]): RangeMap<V, K> {
+        return entries.reduce((map, [range, value]) => map.put(range, value), RangeMap.empty<V, K>());
+    }
+
+    /**
+     * Checks if the RangeMap has no entries.
+     * @returns {boolean} True if the RangeMap is empty, false otherwise.
+     */
+    isEmpty(): boolean {
+        return this.mappings.length === 0;
+    }
+
+    /**
+     * Returns the value of the range containing a key, using a binary search.
+     * @param {K} key - The key.
+     * @returns {V | undefined} The value, or undefined if no range contains the key.
+     */
+    get(key: K): V | undefined {
+        const index = indexOfRange(this.mappings, ([range]) => range, key);
+        return index === -1 ? undefined : this.mappings[index][1];
+    }
+
+    /**
+     * Returns a RangeMap where every key of the given range is mapped to the given value.
+     * @param {Range<K>} range - The range of keys.
+     * @param {V} value - The value.
+     * @returns {RangeMap<V, K>} The new RangeMap.
+     * @example
+     * const map = RangeMap.of([Range.closed(1, 10), "a"]).put(Range.open(3, 5), "b"); // {[1..3]=a, (3..5)=b, [5..10]=a}
+     */
+    put(range: Range<K>, value: V): RangeMap<V, K> {
+        if (range.isEmpty()) {
+            return this;
+        }
+        const mappings = [...this.remove(range).mappings];
+        let index = insertionIndexOf(mappings, ([existing]) => existing, range);
+        let merged = range;
+        const previous = mappings[index - 1];
+        if (previous && previous[0].isConnected(merged) && Equality.equals(previous[1], value)) {
+            merged = previous[0].span(merged);
+            mappings.splice(--index, 1);
+        }
+        const next = mappings[index];
+        if (next && next[0].isConnected(merged) && Equality.equals(next[1], value)) {
+            merged = merged.span(next[0]);
+            mappings.splice(index, 1);
+        }
+        mappings.splice(index, 0, [merged, value]);
+        return new RangeMap<V, K>(mappings);
+    }
+
+    /**
+     * Returns a RangeMap without the keys of the given range. The ranges it overlaps are trimmed or split.
+     * @param {Range<K>} range - The range of keys to remove.
+     * @returns {RangeMap<V, K>} The new RangeMap.
+     */
+    remove(range: Range<K>): RangeMap<V, K> {
+        if (range.isEmpty()) {
+            return this;
+        }
+        return new RangeMap<V, K>(this.mappings.flatMap(([existing, value]) =>
+            subtract(existing, range).map(piece => [piece, value] as const)));
+    }
+
+    /**
+     * Returns the smallest range enclosing every key of the RangeMap.
+     * @returns {Range<K>} The span of the ranges.
+     * @throws {NoSuchElementError} If the RangeMap is empty.
+     */
+    span(): Range<K> {
+        if (this.isEmpty()) {
+            throw new NoSuchElementError("RangeMap is empty");
+        }
+        return this.mappings[0][0].span(this.mappings[this.mappings.length - 1][0]);
+    }
+
+    /**
+     * Returns the RangeSet of the keys of the RangeMap.
+     * @returns {RangeSet<K>} The keys.
+     */
+    keys(): RangeSet<K> {
+        return RangeSet.of(...this.mappings.map(([range]) => range));
+    }
+
+    /**
+     * Returns the disjoint ranges of the RangeMap with their values, in ascending order.
+     * @returns {ReadonlyArray<readonly [Range<K>, V]>} The entries.
+     */
+    entries(): ReadonlyArray<readonly [Range<K>, V]> {
+        return this.mappings;
+    }
+
+    /**
+     * Iterates the disjoint ranges of the RangeMap with their values, in ascending order.
+     * @returns {Iterator<readonly [Range<K>, V]>} An iterator over the entries.
+     */
+    [Symbol.iterator](): Iterator<readonly [Range<K>, V]> {
+        return this.mappings[Symbol.iterator]();
+    }
+
+    /**
+     * Returns the string representation of the RangeMap.
+     * @returns {string} The entries, such as `{[1..3]=a, (3..5)=b}`.
+     */
+    toString(): string {
+        return `{${this.mappings.map(([range, value]) => `${range}=${value}`).join(", ")}}`;
+    }
+}
+
+function isBelowRange<T>(value: T, range: Range<T>): boolean {
+    if (!range.hasLowerBound()) {
+        return false;
+    }
+    const result = range.compareValues(value, range.lowerEndpoint());
+    return result < 0 || (result === 0 && range.lowerBoundType() === "open");
+}
+
+function indexOfRange<E, T>(items: ReadonlyArray<E>, rangeOf: (item: E) => Range<T>, value: T): number {
+    let low = 0;
+    let high = items.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >>> 1;
+        const range = rangeOf(items[middle]);
+        if (range.contains(value)) {
+            return middle;
+        }
+        if (isBelowRange(value, range)) {
+            high = middle - 1;
+        } else {
+            low = middle + 1;
+        }
+    }
+    return -1;
+}
+
+// Position of a range among sorted ranges that it does not overlap
+function insertionIndexOf<E, T>(items: ReadonlyArray<E>, rangeOf: (item: E) => Range<T>, range: Range<T>): number {
+    const index = items.findIndex(item => {
+        const existing = rangeOf(item);
+        if (!range.hasLowerBound() || !existing.hasLowerBound()) {
+            return !range.hasLowerBound();
+        }
+        const result = range.compareValues(range.lowerEndpoint(), existing.lowerEndpoint());
+        return result < 0 || (result === 0 && range.lowerBoundType() === "closed");
+    });
+    return index === -1 ? items.length : index;
+}
+
+function orderOf<T>(range: Range<T>): Comparator<T> {
+    return {compare: (a, b) => range.compareValues(a, b)};
+}
+
+function rangeBelow<T>(range: Range<T>): Range<T> | undefined {
+    if (!range.hasLowerBound()) {
+        return undefined;
+    }
+    return range.lowerBoundType() === "closed"
+        ? Range.lessThan(range.lowerEndpoint(), orderOf(range))
+        : Range.atMost(range.lowerEndpoint(), orderOf(range));
+}
+
+function rangeAbove<T>(range: Range<T>): Range<T> | undefined {
+    if (!range.hasUpperBound()) {
+        return undefined;
+    }
+    return range.upperBoundType() === "closed"
+        ? Range.greaterThan(range.upperEndpoint(), orderOf(range))
+        : Range.atLeast(range.upperEndpoint(), orderOf(range));
+}
+
+function subtract<T>(range: Range<T>, removed: Range<T>): Range<T>[] {
+    if (!range.isConnected(removed)) {
+        return [range];
+    }
+    return [rangeBelow(removed), rangeAbove(removed)]
+        .filter((side): side is Range<T> => side !== undefined && side.isConnected(range))
+        .map(side => range.intersect(side))
+        .filter(piece => !piece.isEmpty());
+}
@@ -1,4 +1,6 @@
 import {Optional} from "./optional";
+import {AsyncResult} from "./asyncResult";
+import {Either, Left, Right} from "./either";
 
 /**
  * Represents the result of an operation that can either succeed with a value or fail with an error.
@@ -22,44 +24,208 @@ import {Optional} from "./optional";
  * @since version 1.2.0
  * @author Manuel Santos <ney.br.santos@gmail.com>
  */
-export type Result<T, E extends string | Error> = Ok<T> | Err<E>;
+export type Result<T, E> = Ok<T, E> | Err<E, T>;
+
+type TagOf<E> = E extends { readonly _tag: infer K extends string } ? K : never;
+
+type WithTag<E, K> = Extract<E, { readonly _tag: K }>;
+
+type ErrorCases<E> = [Exclude<E, { readonly _tag: string }>] extends [never]
+    ? { [K in TagOf<E>]: (error: WithTag<E, K>) => unknown }
+    : never;
 
 /**
  * Represents the successful outcome of an operation with a value.
+ *
+ * Ok and {@link Err} share the same API, so a {@link Result} can be chained without narrowing it first.
+ *
  * @template T - The type of the success value.
+ * @template E - The type of the error value of the Result this Ok belongs to.
  */
-export class Ok<T> {
+export class Ok<T, E = never> {
     constructor(readonly value: T) {
     }
 
+    /**
+     * Checks if this Result is an Ok, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isOk(): this is Ok<T, E> {
+        return true;
+    }
+
+    /**
+     * Checks if this Result is an Err, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isErr(): this is Err<E, T> {
+        return false;
+    }
+
     /**
      * Maps the success value to a new value.
      * @template U - The type of the new value.
      * @param {(value: T) => U} mapper - A function to transform the success value.
-     * @returns {Result<U, never>} - A new Result with the transformed value.
+     * @returns {Result<U, E>} - A new Ok with the transformed value.
      */
-    map<U>(mapper: (value: T) => U): Result<U, never> {
+    map<U>(mapper: (value: T) => U): Result<U, E> {
         return new Ok(mapper(this.value));
     }
 
+    /**
+     * Maps the error value to a new error value. Does nothing on an Ok.
+     * @template F - The type of the new error value.
+     * @param {(error: E) => F} mapper - A function to transform the error value.
+     * @returns {Result<T, F>} - This Ok.
+     */
+    mapErr<F>(mapper: (error: E) => F): Result<T, F> {
+        return this as unknown as Ok<T, F>;
+    }
+
     /**
      * Maps the success value to a new Result.
      * @template U - The type of the success value of the new Result.
-     * @param {(value: T) => Result<U, any>} mapper - A function to transform the success value.
-     * @returns {Result<U, never>} - A new Result with the transformed value.
+     * @template F - The type of the error value of the new Result.
+     * @param {(value: T) => Result<U, F>} mapper - A function to transform the success value.
+     * @returns {Result<U, E | F>} - The Result returned by the mapper.
      */
-    flatMap<U>(mapper: (value: T) => Result<U, never>): Result<U, never> {
+    flatMap<U, F = E>(mapper: (value: T) => Result<U, F>): Result<U, E | F> {
         return mapper(this.value);
     }
 
     /**
-     * Converts the Ok result to an Optional with the success value.
+     * Alias of {@link flatMap}, chaining an operation that can fail.
+     * @template U - The type of the success value of the new Result.
+     * @template F - The type of the error value of the new Result.
+     * @param {(value: T) => Result<U, F>} mapper - A function to transform the success value.
+     * @returns {Result<U, E | F>} - The Result returned by the mapper.
+     */
+    andThen<U, F = E>(mapper: (value: T) => Result<U, F>): Result<U, E | F> {
+        return this.flatMap(mapper);
+    }
+
+    /**
+     * Maps the error value to a new Result. Does nothing on an Ok.
+     * @template U - The type of the success value of the new Result.
+     * @template F - The type of the error value of the new Result.
+     * @param {(error: E) => Result<U, F>} mapper - A function to recover from the error.
+     * @returns {Result<T | U, F>} - This Ok.
+     */
+    orElse<U, F>(mapper: (error: E) => Result<U, F>): Result<T | U, F> {
+        return this as unknown as Ok<T, F>;
+    }
+
+    /**
+     * Maps the error value to a success value. Does nothing on an Ok.
+     * @template U - The type of the recovered value.
+     * @param {(error: E) => U} mapper - A function to recover from the error.
+     * @returns {Result<T | U, never>} - This Ok.
+     */
+    recover<U>(mapper: (error: E) => U): Result<T | U, never> {
+        return this as unknown as Ok<T, never>;
+    }
+
+    /**
+     * Retrieves the success value, or the default value if the result is an Err.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the result is an Err.
+     * @returns {T | U} - The success value.
+     */
+    unwrapOr<U>(defaultValue: U): T | U {
+        return this.value;
+    }
+
+    /**
+     * Retrieves the success value, or computes one from the error if the result is an Err.
+     * @template U - The type of the computed value.
+     * @param {(error: E) => U} mapper - A function computing a value from the error.
+     * @returns {T | U} - The success value.
+     */
+    unwrapOrElse<U>(mapper: (error: E) => U): T | U {
+        return this.value;
+    }
+
+    /**
+     * Applies the function matching the variant of the Result.
+     * @template R - The type of the returned value.
+     * @param {{ok: (value: T) => R, err: (error: E) => R}} cases - The functions to apply to an Ok and to an Err.
+     * @returns {R} - The value returned by the ok function.
+     */
+    match<R>(cases: { ok: (value: T) => R, err: (error: E) => R }): R {
+        return cases.ok(this.value);
+    }
+
+    /**
+     * Handles the error value with the function matching its tag. Does nothing on an Ok. The error type must be a
+     * union of tagged errors (see {@link TaggedError}), and a function is required for every tag.
+     * @template C - The functions handling each tag.
+     * @param {C} cases - A function for each tag of the error type.
+     * @returns {T | ReturnType<C[keyof C]>} - The success value.
+     */
+    matchError<C extends ErrorCases<E>>(cases: C): T | ReturnType<C[keyof C]> {
+        return this.value;
+    }
+
+    /**
+     * Recovers from the errors with the specified tag, removing it from the error type. Does nothing on an Ok.
+     * @template K - The tag to recover from.
+     * @template U - The type of the success value of the recovered Result.
+     * @template F - The type of the error value of the recovered Result.
+     * @param {K} tag - The tag to recover from.
+     * @param {(error) => Result<U, F>} handler - A function recovering from an error with the tag.
+     * @returns {Result<T | U, Exclude<E, {_tag: K}> | F>} - This Ok.
+     */
+    catchTag<K extends TagOf<E>, U, F = never>(
+        tag: K,
+        handler: (error: WithTag<E, K>) => Result<U, F>
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        return this as unknown as Ok<T, F>;
+    }
+
+    /**
+     * Executes a side effect with the success value.
+     * @param {(value: T) => void} consumer - A function receiving the success value.
+     * @returns {Result<T, E>} - This Ok.
+     */
+    tap(consumer: (value: T) => void): Result<T, E> {
+        consumer(this.value);
+        return this;
+    }
+
+    /**
+     * Executes a side effect with the error value. Does nothing on an Ok.
+     * @param {(error: E) => void} consumer - A function receiving the error value.
+     * @returns {Result<T, E>} - This Ok.
+     */
+    tapErr(consumer: (error: E) => void): Result<T, E> {
+        return this;
+    }
+
+    /**
+     * Converts the Result into an AsyncResult, allowing it to be chained with asynchronous operations.
+     * @returns {AsyncResult<T, E>} - An AsyncResult resolving to this Ok.
+     */
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.from<T, E>(this);
+    }
+
+    /**
+     * Converts the Ok result to an Optional with the success value. As with {@link Optional.of}, a value considered
+     * absent by the emptiness policy, such as a blank string or an empty array, results in an empty Optional.
      * @returns {Optional<T>} - An Optional containing the success value.
      */
     toOptional(): Optional<T> {
         return Optional.of(this.value);
     }
 
+    /**
+     * Converts the Result into an Either, with the error value on the left side.
+     * @returns {Either<E, T>} - A Right with the success value.
+     */
+    toEither(): Either<E, T> {
+        return new Right<T, E>(this.value);
+    }
+
     /**
      * Retrieves the value or throws an error if the result is an Err.
      * @returns {T} - The success value.
@@ -72,12 +238,37 @@ export class Ok<T> {
     /**
      * Extract the value or plain error from a Result.
      *
-     * @template T - The type of the success value.
-     * @template E - The type of the error value (must be string or instance of Error).
-     *
      * @returns {{ value?: T, error?: E }} - An object with the value or error property set.
      */
-    extract<E extends string | Error>(): { value?: T, error?: E } {
+    extract(): { value?: T, error?: E } {
+        return {value: this.value};
+    }
+
+    /**
+     * Wraps the error value into an Error with the specified message, keeping the original error as its cause.
+     * Does nothing on an Ok.
+     * @param {string} message - The message describing what was being done.
+     * @returns {Result<T, Error>} - This Ok.
+     */
+    context(message: string): Result<T, Error> {
+        return this as unknown as Ok<T, Error>;
+    }
+
+    /**
+     * Wraps the error value into an Error with the message supplied by the provider, keeping the original error as
+     * its cause. Does nothing on an Ok, so the message is never built.
+     * @param {() => string} messageProvider - A function returning the message describing what was being done.
+     * @returns {Result<T, Error>} - This Ok.
+     */
+    withContext(messageProvider: () => string): Result<T, Error> {
+        return this as unknown as Ok<T, Error>;
+    }
+
+    /**
+     * Returns a representation of the Result for structured logging, used by `JSON.stringify`.
+     * @returns {{ value: T }} - An object with the success value.
+     */
+    toJSON(): { value: T } {
         return {value: this.value};
     }
 
@@ -90,55 +281,238 @@ export class Ok<T> {
     static ok<T>(value: T): Ok<T> {
         return new Ok(value);
     }
+
+    /**
+     * Unwraps the success value inside {@link Result.gen} and {@link Result.genAsync} when used with `yield*`.
+     * @returns {Generator<never, T, unknown>} - A generator that immediately returns the success value.
+     */
+    *[Symbol.iterator](): Generator<never, T, unknown> {
+        return this.value;
+    }
+
+    /**
+     * Unwraps the success value inside {@link Result.gen} and {@link Result.genAsync} when used with `yield*`, in the
+     * same way as {@link Optional.bind}.
+     * @returns {Generator<never, T, unknown>} - A generator that immediately returns the success value.
+     */
+    bind(): Generator<never, T, unknown> {
+        return this[Symbol.iterator]();
+    }
 }
 
 /**
  * Represents the failure outcome of an operation with an error.
+ *
+ * Err and {@link Ok} share the same API, so a {@link Result} can be chained without narrowing it first.
+ *
  * @template E - The type of the error value.
+ * @template T - The type of the success value of the Result this Err belongs to.
  */
-export class Err<E extends string | Error> {
+export class Err<E, T = never> {
     constructor(readonly error: E) {
     }
 
+    /**
+     * Checks if this Result is an Ok, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isOk(): this is Ok<T, E> {
+        return false;
+    }
+
+    /**
+     * Checks if this Result is an Err, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isErr(): this is Err<E, T> {
+        return true;
+    }
+
+    /**
+     * Maps the success value to a new value. Does nothing on an Err.
+     * @template U - The type of the new value.
+     * @param {(value: T) => U} mapper - A function to transform the success value.
+     * @returns {Result<U, E>} - This Err.
+     */
+    map<U>(mapper: (value: T) => U): Result<U, E> {
+        return this as unknown as Err<E, U>;
+    }
+
     /**
      * Maps the error value to a new error value.
      * @template F - The type of the new error value.
      * @param {(error: E) => F} mapper - A function to transform the error value.
-     * @returns {Result<never, F>} - A new Result with the transformed error value.
+     * @returns {Result<T, F>} - A new Err with the transformed error value.
+     */
+    mapErr<F>(mapper: (error: E) => F): Result<T, F> {
+        return new Err<F, T>(mapper(this.error));
+    }
+
+    /**
+     * Maps the success value to a new Result. Does nothing on an Err.
+     * @template U - The type of the success value of the new Result.
+     * @template F - The type of the error value of the new Result.
+     * @param {(value: T) => Result<U, F>} mapper - A function to transform the success value.
+     * @returns {Result<U, E | F>} - This Err.
      */
-    map<F extends string | Error>(mapper: (error: E) => F): Result<never, F> {
-        return new Err<F>(mapper(this.error));
+    flatMap<U, F = E>(mapper: (value: T) => Result<U, F>): Result<U, E | F> {
+        return this as unknown as Err<E, U>;
+    }
+
+    /**
+     * Alias of {@link flatMap}, chaining an operation that can fail. Does nothing on an Err.
+     * @template U - The type of the success value of the new Result.
+     * @template F - The type of the error value of the new Result.
+     * @param {(value: T) => Result<U, F>} mapper - A function to transform the success value.
+     * @returns {Result<U, E | F>} - This Err.
+     */
+    andThen<U, F = E>(mapper: (value: T) => Result<U, F>): Result<U, E | F> {
+        return this.flatMap(mapper);
     }
 
     /**
      * Maps the error value to a new Result.
+     * @template U - The type of the success value of the new Result.
      * @template F - The type of the error value of the new Result.
-     * @param {(error: E) => Result<never, F>} mapper - A function to transform the error value.
-     * @returns {Result<never, F>} - A new Result with the transformed error value.
+     * @param {(error: E) => Result<U, F>} mapper - A function to recover from the error.
+     * @returns {Result<T | U, F>} - The Result returned by the mapper.
      */
-    flatMap<F extends string | Error>(mapper: (error: E) => Result<never, F>): Result<never, F> {
+    orElse<U, F>(mapper: (error: E) => Result<U, F>): Result<T | U, F> {
         return mapper(this.error);
     }
 
+    /**
+     * Maps the error value to a success value.
+     * @template U - The type of the recovered value.
+     * @param {(error: E) => U} mapper - A function to recover from the error.
+     * @returns {Result<T | U, never>} - An Ok with the recovered value.
+     */
+    recover<U>(mapper: (error: E) => U): Result<T | U, never> {
+        return new Ok(mapper(this.error));
+    }
+
+    /**
+     * Retrieves the success value, or the default value if the result is an Err.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the result is an Err.
+     * @returns {T | U} - The default value.
+     */
+    unwrapOr<U>(defaultValue: U): T | U {
+        return defaultValue;
+    }
+
+    /**
+     * Retrieves the success value, or computes one from the error if the result is an Err.
+     * @template U - The type of the computed value.
+     * @param {(error: E) => U} mapper - A function computing a value from the error.
+     * @returns {T | U} - The value computed from the error.
+     */
+    unwrapOrElse<U>(mapper: (error: E) => U): T | U {
+        return mapper(this.error);
+    }
+
+    /**
+     * Applies the function matching the variant of the Result.
+     * @template R - The type of the returned value.
+     * @param {{ok: (value: T) => R, err: (error: E) => R}} cases - The functions to apply to an Ok and to an Err.
+     * @returns {R} - The value returned by the err function.
+     */
+    match<R>(cases: { ok: (value: T) => R, err: (error: E) => R }): R {
+        return cases.err(this.error);
+    }
+
+    /**
+     * Handles the error value with the function matching its tag. The error type must be a union of tagged errors
+     * (see {@link TaggedError}), and a function is required for every tag.
+     * @template C - The functions handling each tag.
+     * @param {C} cases - A function for each tag of the error type.
+     * @returns {T | ReturnType<C[keyof C]>} - The value returned by the function matching the tag of the error.
+     *
+     * @example
+     * const message = findUser(id).map(user => user.name).matchError({
+     *     NotFound: error => `User ${error.id} not found`,
+     *     Forbidden: () => "Access denied"
+     * });
+     */
+    matchError<C extends ErrorCases<E>>(cases: C): T | ReturnType<C[keyof C]> {
+        const handler = (cases as Record<string, (error: E) => ReturnType<C[keyof C]>>)[(this.error as { _tag: string })._tag];
+        return handler(this.error);
+    }
+
+    /**
+     * Recovers from the errors with the specified tag, removing it from the error type. Errors with other tags are
+     * kept.
+     * @template K - The tag to recover from.
+     * @template U - The type of the success value of the recovered Result.
+     * @template F - The type of the error value of the recovered Result.
+     * @param {K} tag - The tag to recover from.
+     * @param {(error) => Result<U, F>} handler - A function recovering from an error with the tag.
+     * @returns {Result<T | U, Exclude<E, {_tag: K}> | F>} - The Result returned by the handler, or this Err.
+     *
+     * @example
+     * const user: Result<User, Forbidden> = findUser(id).catchTag("NotFound", () => ok(guestUser));
+     */
+    catchTag<K extends TagOf<E>, U, F = never>(
+        tag: K,
+        handler: (error: WithTag<E, K>) => Result<U, F>
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        const error = this.error as { _tag?: unknown } | null;
+        if (typeof error === "object" && error !== null && error._tag === tag) {
+            return handler(this.error as WithTag<E, K>);
+        }
+        return this as unknown as Err<Exclude<E, { readonly _tag: K }>, T>;
+    }
+
+    /**
+     * Executes a side effect with the success value. Does nothing on an Err.
+     * @param {(value: T) => void} consumer - A function receiving the success value.
+     * @returns {Result<T, E>} - This Err.
+     */
+    tap(consumer: (value: T) => void): Result<T, E> {
+        return this;
+    }
+
+    /**
+     * Executes a side effect with the error value.
+     * @param {(error: E) => void} consumer - A function receiving the error value.
+     * @returns {Result<T, E>} - This Err.
+     */
+    tapErr(consumer: (error: E) => void): Result<T, E> {
+        consumer(this.error);
+        return this;
+    }
+
     /**
      * Retrieves the error value or throws an error if the result is an Ok.
      * @returns {E} - The error value.
      * @throws The success value if the result is an Ok.
      */
     throw(): E {
-        if (this.error instanceof Error) {
-            throw this.error;
-        } else {
-            throw new Error(this.error as string);
-        }
+        throw toError(this.error);
     }
 
     /**
-     * Converts the Err result to an Optional with the error value.
-     * @returns {Optional<E>} - An Optional containing the error value.
+     * Converts the Result into an AsyncResult, allowing it to be chained with asynchronous operations.
+     * @returns {AsyncResult<T, E>} - An AsyncResult resolving to this Err.
      */
-    toOptional(): Optional<E> {
-        return Optional.of(this.error);
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.from<T, E>(this);
+    }
+
+    /**
+     * Converts the Err result to an Optional, discarding the error value.
+     * @returns {Optional<T>} - An empty Optional.
+     */
+    toOptional(): Optional<T> {
+        return Optional.empty();
+    }
+
+    /**
+     * Converts the Result into an Either, with the error value on the left side.
+     * @returns {Either<E, T>} - A Left with the error value.
+     */
+    toEither(): Either<E, T> {
+        return new Left<E, T>(this.error);
     }
 
     /**
@@ -146,37 +520,392 @@ export class Err<E extends string | Error> {
      * @returns {T} - The success value.
      * @throws The error value if the result is an Err.
      */
-    get<T>(): T {
-        if (this.error instanceof Error) {
-            throw this.error;
-        } else {
-            throw new Error(this.error as string);
-        }
+    get(): T {
+        throw toError(this.error);
     }
 
     /**
      * Extract the value or plain error from a Result.
      *
-     * @template T - The type of the success value.
-     * @template E - The type of the error value (must be string or instance of Error).
-     *
-     * @returns {{ value?: T, error?: E }} - An object with the value or error property set.
+     * @returns {{ value?: T, error: E }} - An object with the value or error property set.
      */
-    extract<T>(): { value?: T, error: E } {
+    extract(): { value?: T, error: E } {
         return {error: this.error};
     }
 
+    /**
+     * Wraps the error value into an Error with the specified message, keeping the original error as its cause.
+     * @param {string} message - The message describing what was being done.
+     * @returns {Result<T, Error>} - A new Err with the wrapping Error.
+     *
+     * @example
+     * loadUser(42).context("loading user 42").context("rendering profile page");
+     */
+    context(message: string): Result<T, Error> {
+        return new Err<Error, T>(new Error(message, {cause: this.error}));
+    }
+
+    /**
+     * Wraps the error value into an Error with the message supplied by the provider, keeping the original error as
+     * its cause.
+     * @param {() => string} messageProvider - A function returning the message describing what was being done.
+     * @returns {Result<T, Error>} - A new Err with the wrapping Error.
+     */
+    withContext(messageProvider: () => string): Result<T, Error> {
+        return this.context(messageProvider());
+    }
+
+    /**
+     * Renders the error value and its whole chain of causes, with their stack frames.
+     * @returns {string} - The rendered chain, one "Caused by:" section per cause.
+     *
+     * @example
+     * console.error(result.report());
+     * // Error: rendering profile page
+     * //     at ...
+     * // Caused by: Error: loading user 42
+     * //     at ...
+     * // Caused by: Error: connection refused
+     * //     at ...
+     */
+    report(): string {
+        return causesOf(this.error)
+            .map((cause, index) => (index === 0 ? "" : "Caused by: ") + describeCause(cause))
+            .join("\n");
+    }
+
+    /**
+     * Returns a representation of the Result for structured logging, used by `JSON.stringify`. Errors are serialized
+     * with their name, message, stack, own properties and cause chain.
+     * @returns {{ error: unknown }} - An object with the serialized error value.
+     */
+    toJSON(): { error: unknown } {
+        return {error: serializeCause(this.error, new Set())};
+    }
+
     /**
      * Creates an Err result with the specified error value.
      * @template E - The type of the error value.
      * @param {E} error - The error value.
      * @returns {Err<E>} - An Err result.
      */
-    static error<E extends string | Error>(error: E): Err<E> {
+    static error<E>(error: E): Err<E> {
         return new Err(error);
     }
+
+    /**
+     * Short-circuits {@link Result.gen} and {@link Result.genAsync} when used with `yield*`.
+     * @returns {Generator<Err<E>, never, unknown>} - A generator that yields this Err to the enclosing do-notation.
+     */
+    *[Symbol.iterator](): Generator<Err<E>, never, unknown> {
+        return (yield this as unknown as Err<E>) as never;
+    }
+
+    /**
+     * Short-circuits {@link Result.gen} and {@link Result.genAsync} when used with `yield*`, in the same way as
+     * {@link Optional.bind}.
+     * @returns {Generator<Err<E>, never, unknown>} - A generator that yields this Err to the enclosing do-notation.
+     */
+    bind(): Generator<Err<E>, never, unknown> {
+        return this[Symbol.iterator]();
+    }
+}
+
+type ErrorOf<Y> = Y extends Err<infer E, any> ? E : never;
+
+type ValueOf<R> = R extends Ok<infer T, any> ? T : never;
+
+type ResultValues<T extends readonly Result<any, any>[]> = {
+    -readonly [K in keyof T]: ValueOf<T[K]>
+};
+
+type ResultRecord<T extends Record<string, Result<any, any>>> = {
+    [K in keyof T]: ValueOf<T[K]>
+};
+
+/**
+ * Lists an error followed by its chain of causes, stopping at a cycle.
+ */
+function causesOf(error: unknown): unknown[] {
+    const chain: unknown[] = [];
+    let current: unknown = error;
+    while (current !== undefined && !chain.includes(current)) {
+        chain.push(current);
+        current = current instanceof Error ? current.cause : undefined;
+    }
+    return chain;
+}
+
+function describeCause(cause: unknown): string {
+    if (cause instanceof Error) {
+        return cause.stack ?? `${cause.name}: ${cause.message}`;
+    }
+    if (typeof cause === "string") {
+        return cause;
+    }
+    try {
+        return JSON.stringify(cause) ?? String(cause);
+    } catch {
+        // BigInts and self-referencing objects cannot be serialized
+        return String(cause);
+    }
+}
+
+function serializeCause(cause: unknown, seen: Set<unknown>): unknown {
+    if (!(cause instanceof Error) || seen.has(cause)) {
+        return cause;
+    }
+    seen.add(cause);
+    return {
+        ...cause,
+        name: cause.name,
+        message: cause.message,
+        stack: cause.stack,
+        ...(cause.cause !== undefined ? {cause: serializeCause(cause.cause, seen)} : {})
+    };
+}
+
+/**
+ * Normalizes anything that was thrown into an Error, keeping the original throwable as its cause.
+ */
+function toError(thrown: unknown): Error {
+    if (thrown instanceof Error) {
+        return thrown;
+    }
+    const message = typeof thrown === "string" ? thrown : `Non-error value thrown: ${String(thrown)}`;
+    return new Error(message, {cause: thrown});
 }
 
+/**
+ * Companion object of the Result type, providing the generator-based do-notation, the capture of exceptions and the
+ * combination of several Results.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export const Result = {
+
+    /**
+     * Combines several Results without nesting flatMap calls. Each `yield*` unwraps the value of an Ok, and the first
+     * Err short-circuits the whole computation. Results can be unwrapped with `yield*` on the Result itself or on its
+     * `bind()` method, which is the form shared with {@link Optional.gen} and {@link Either.gen}.
+     *
+     * @template Y - The type of the Err values that can be yielded.
+     * @template R - The type of the returned value.
+     * @param {() => Generator<Y, R, any>} body - A generator function that unwraps Results with `yield*`.
+     * @returns {Result<R, ErrorOf<Y>>} - An Ok with the returned value, or the first Err that was unwrapped.
+     *
+     * @example
+     * const sum = Result.gen(function* () {
+     *     const a = yield* parseNumber("1").bind();
+     *     const b = yield* parseNumber("2").bind();
+     *     return a + b;
+     * }); // Ok(3), or the Err of the first parseNumber that failed
+     */
+    gen<Y extends Err<any>, R>(body: () => Generator<Y, R, any>): Result<R, ErrorOf<Y>> {
+        const iterator = body();
+        const state = iterator.next();
+        if (!state.done) {
+            iterator.return(undefined as R);
+            return state.value as Y;
+        }
+        return Ok.ok(state.value as R);
+    },
+
+    /**
+     * The asynchronous variant of {@link Result.gen}, taking an async generator function as body.
+     *
+     * @template Y - The type of the Err values that can be yielded.
+     * @template R - The type of the returned value.
+     * @param {() => AsyncGenerator<Y, R, any>} body - An async generator function that unwraps Results with `yield*`.
+     * @returns {Promise<Result<R, ErrorOf<Y>>>} - A promise of an Ok with the returned value, or of the first Err.
+     *
+     * @example
+     * const user = await Result.genAsync(async function* () {
+     *     const id = yield* parseId(request.params.id).bind();
+     *     return yield* (await userService.load(id)).bind();
+     * });
+     */
+    async genAsync<Y extends Err<any>, R>(body: () => AsyncGenerator<Y, R, any>): Promise<Result<R, ErrorOf<Y>>> {
+        const iterator = body();
+        const state = await iterator.next();
+        if (!state.done) {
+            await iterator.return(undefined as R);
+            return state.value as Y;
+        }
+        return Ok.ok(state.value as R);
+    },
+
+    /**
+     * Runs a function and captures its outcome: an Ok with the returned value, or an Err with the thrown exception.
+     * Thrown values that are not Errors are normalized into Errors, keeping the original value as the cause.
+     *
+     * @template T - The type of the returned value.
+     * @template E - The type of the error value.
+     * @param {() => T} fn - The function to run.
+     * @param {(error: unknown) => E} [mapError] - A function converting the thrown exception into the error value.
+     * @returns {Result<T, E>} - An Ok with the returned value, or an Err with the (mapped) exception.
+     *
+     * @example
+     * const config = Result.try(() => JSON.parse(text)); // Ok(object), or Err(SyntaxError)
+     * const port = Result.try(() => parsePort(text), e => `Invalid port: ${e}`);
+     */
+    try<T, E = Error>(fn: () => T, mapError?: (error: unknown) => E): Result<T, E> {
+        try {
+            return Ok.ok(fn());
+        } catch (thrown) {
+            return Err.error(mapError ? mapError(thrown) : toError(thrown) as E);
+        }
+    },
+
+    /**
+     * Awaits a promise and captures its outcome: an Ok with the resolved value, or an Err with the rejection reason.
+     * Rejection reasons that are not Errors are normalized into Errors, keeping the original reason as the cause.
+     *
+     * @template T - The type of the resolved value.
+     * @template E - The type of the error value.
+     * @param {PromiseLike<T>} promise - The promise to await.
+     * @param {(error: unknown) => E} [mapError] - A function converting the rejection reason into the error value.
+     * @returns {Promise<Result<T, E>>} - A promise of an Ok with the resolved value, or of an Err with the (mapped) reason.
+     *
+     * @example
+     * const response = await Result.fromPromise(fetch(url));
+     * response.match({ok: r => r.status, err: e => console.error(e.message)});
+     */
+    async fromPromise<T, E = Error>(
+        promise: PromiseLike<T>,
+        mapError?: (error: unknown) => E
+    ): Promise<Result<T, E>> {
+        try {
+            return Ok.ok(await promise);
+        } catch (thrown) {
+            return Err.error(mapError ? mapError(thrown) : toError(thrown) as E);
+        }
+    },
+
+    /**
+     * Calls a function taking a Node-style callback, `(error, value) => void`, and captures its outcome: an Ok with
+     * the value, or an Err with the error passed to the callback or thrown by the function.
+     *
+     * @template T - The type of the value passed to the callback.
+     * @template E - The type of the error value.
+     * @param {(callback: (error: unknown, value?: T) => void) => void} fn - A function that calls the callback once.
+     * @param {(error: unknown) => E} [mapError] - A function converting the callback error into the error value.
+     * @returns {Promise<Result<T, E>>} - A promise of an Ok with the value, or of an Err with the (mapped) error.
+     *
+     * @example
+     * const content = await Result.fromCallback<string>(callback => fs.readFile(path, "utf8", callback));
+     */
+    fromCallback<T, E = Error>(
+        fn: (callback: (error: unknown, value?: T) => void) => void,
+        mapError?: (error: unknown) => E
+    ): Promise<Result<T, E>> {
+        return Result.fromPromise(new Promise<T>((resolve, reject) => {
+            fn((error, value) => error !== undefined && error !== null ? reject(error) : resolve(value as T));
+        }), mapError);
+    },
+
+    /**
+     * Combines several Results into a Result of a tuple holding all their values. The type of each element is
+     * preserved in the resulting tuple.
+     *
+     * @template T - The types of the Results.
+     * @param {T} results - The Results to combine.
+     * @returns {Result} - An Ok with the tuple of values if all the Results are Ok, or the first Err otherwise.
+     *
+     * @example
+     * const pair = Result.all([parseNumber("1"), parseDate("2024-01-01")]); // Ok([1, Date])
+     * const failed = Result.all([ok(1), error("failed"), error("ignored")]); // Err("failed")
+     */
+    all<T extends readonly Result<any, any>[] | []>(results: T): Result<ResultValues<T>, ErrorOf<T[number]>> {
+        const values: unknown[] = [];
+        for (const result of results as readonly Result<unknown, any>[]) {
+            if (result.isErr()) {
+                return result as Err<ErrorOf<T[number]>, never>;
+            }
+            values.push(result.value);
+        }
+        return Ok.ok(values as ResultValues<T>);
+    },
+
+    /**
+     * Returns the first Ok among several Results. If all of them are Errs, returns an Err with an AggregateError
+     * holding every error value, in order.
+     *
+     * @template T - The types of the Results.
+     * @param {T} results - The Results to search.
+     * @returns {Result} - The first Ok, or an Err with all the errors otherwise.
+     *
+     * @example
+     * const port = Result.any([parsePort(env.PORT), parsePort(config.port)]);
+     */
+    any<T extends readonly Result<any, any>[] | []>(results: T): Result<ValueOf<T[number]>, AggregateError> {
+        const errors: unknown[] = [];
+        for (const result of results as readonly Result<unknown, any>[]) {
+            if (result.isOk()) {
+                return result as Ok<ValueOf<T[number]>, never>;
+            }
+            errors.push(result.error);
+        }
+        return Err.error(new AggregateError(errors, "No Result succeeded"));
+    },
+
+    /**
+     * Splits several Results into the values of the Oks and the errors of the Errs, keeping their order.
+     *
+     * @template T - The type of the success values.
+     * @template E - The type of the error values.
+     * @param {readonly Result<T, E>[]} results - The Results to split.
+     * @returns {{oks: T[], errs: E[]}} - The success values and the error values.
+     *
+     * @example
+     * const {oks, errs} = Result.partition(lines.map(parseLine));
+     * console.log(`${oks.length} parsed, ${errs.length} failed`);
+     */
+    partition<T, E>(results: readonly Result<T, E>[]): { oks: T[], errs: E[] } {
+        const oks: T[] = [];
+        const errs: E[] = [];
+        for (const result of results) {
+            if (result.isOk()) {
+                oks.push(result.value);
+            } else {
+                errs.push((result as Err<E, T>).error);
+            }
+        }
+        return {oks, errs};
+    },
+
+    /**
+     * Combines a record of Results into a Result of a record holding all their values under the same keys.
+     *
+     * @template T - The type of the record of Results.
+     * @param {T} results - The record of Results to combine.
+     * @returns {Result} - An Ok with the record of values if all the Results are Ok, or the first Err otherwise.
+     *
+     * @example
+     * const settings = Result.collect({host: parseHost(env.HOST), port: parsePort(env.PORT)});
+     * settings.map(({host, port}) => `${host}:${port}`);
+     */
+    collect<T extends Record<string, Result<any, any>>>(results: T): Result<ResultRecord<T>, ErrorOf<T[keyof T]>> {
+        const entries = Object.entries(results);
+        return Result.all(entries.map(([, result]) => result)).map(values =>
+            Object.fromEntries(entries.map(([key], index) => [key, values[index]])) as ResultRecord<T>
+        );
+    },
+
+    /**
+     * Converts an Either into a Result, with the left value as the error value.
+     *
+     * @template L - The type of the left value.
+     * @template R - The type of the right value.
+     * @param {Either<L, R>} either - The Either to convert.
+     * @returns {Result<R, L>} - An Ok with the right value, or an Err with the left value.
+     */
+    fromEither<L, R>(either: Either<L, R>): Result<R, L> {
+        return either.toResult();
+    }
+};
+
 declare global {
 
     /**
@@ -193,7 +922,15 @@ declare global {
      * @param {E} error - The error value.
      * @returns {Err<E>} - An Err result.
      */
-    function error<E extends string | Error>(error: E): Err<E>;
+    function error<E>(error: E): Err<E>;
+
+    /**
+     * Runs a block and captures its outcome, like Kotlin's runCatching. See {@link Result.try}.
+     * @template T - The type of the returned value.
+     * @param {() => T} block - The block to run.
+     * @returns {Result<T, Error>} - An Ok with the returned value, or an Err with the thrown exception.
+     */
+    function runCatching<T>(block: () => T): Result<T, Error>;
 }
 
 // Global extensions
@@ -203,6 +940,10 @@ _global.ok = function <T>(value: T): Ok<T> {
     return Ok.ok(value);
 }
 
-_global.error = function <E extends string | Error>(error: E): Err<E> {
+_global.error = function <E>(error: E): Err<E> {
     return Err.error(error);
+}
+
+_global.runCatching = function <T>(block: () => T): Result<T, Error> {
+    return Result.try(block);
 }
\ No newline at end of file
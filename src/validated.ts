@@ -0,0 +1,432 @@
+import {Err, Ok, Result} from "./result";
+import {Either, Left, Right} from "./either";
+
+/**
+ * An array holding at least one element.
+ *
+ * @template T - The type of the elements.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * Represents the outcome of a validation, which is either valid with a value or invalid with every error found.
+ * Unlike {@link Result}, combining Validated values accumulates the errors of all of them instead of stopping at the
+ * first one.
+ *
+ * @template T - The type of the valid value.
+ * @template E - The type of the errors.
+ *
+ * @example
+ * const name = validateName(form.name);   // Validated<string, string>
+ * const age = validateAge(form.age);      // Validated<number, string>
+ *
+ * const user = Validated.mapN([name, age], (name, age) => ({name, age}));
+ * user.match({
+ *     valid: user => save(user),
+ *     invalid: errors => errors.forEach(error => console.log(error)) // every error of name and age
+ * });
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export type Validated<T, E> = Valid<T, E> | Invalid<E, T>;
+
+/**
+ * Represents a successful validation with a value.
+ *
+ * Valid and {@link Invalid} share the same API, so a {@link Validated} can be chained without narrowing it first.
+ *
+ * @template T - The type of the valid value.
+ * @template E - The type of the errors of the Validated this Valid belongs to.
+ */
+export class Valid<T, E = never> {
+    constructor(readonly value: T) {
+    }
+
+    /**
+     * Checks if this Validated is a Valid, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isValid(): this is Valid<T, E> {
+        return true;
+    }
+
+    /**
+     * Checks if this Validated is an Invalid, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isInvalid(): this is Invalid<E, T> {
+        return false;
+    }
+
+    /**
+     * Maps the valid value to a new value.
+     * @template U - The type of the new value.
+     * @param {(value: T) => U} mapper - A function to transform the valid value.
+     * @returns {Validated<U, E>} - A new Valid with the transformed value.
+     */
+    map<U>(mapper: (value: T) => U): Validated<U, E> {
+        return new Valid(mapper(this.value));
+    }
+
+    /**
+     * Maps every error to a new error. Does nothing on a Valid.
+     * @template F - The type of the new errors.
+     * @param {(error: E) => F} mapper - A function to transform each error.
+     * @returns {Validated<T, F>} - This Valid.
+     */
+    mapErrors<F>(mapper: (error: E) => F): Validated<T, F> {
+        return this as unknown as Valid<T, F>;
+    }
+
+    /**
+     * Chains a validation that depends on the valid value. Since it needs the value, it cannot accumulate the errors
+     * of this Validated; use {@link Validated.combine} for independent validations.
+     * @template U - The type of the valid value of the new Validated.
+     * @template F - The type of the errors of the new Validated.
+     * @param {(value: T) => Validated<U, F>} mapper - A function validating the valid value.
+     * @returns {Validated<U, E | F>} - The Validated returned by the mapper.
+     */
+    andThen<U, F = E>(mapper: (value: T) => Validated<U, F>): Validated<U, E | F> {
+        return mapper(this.value);
+    }
+
+    /**
+     * Applies the function matching the variant of the Validated.
+     * @template R - The type of the returned value.
+     * @param {{valid: (value: T) => R, invalid: (errors: NonEmptyArray<E>) => R}} cases - The functions to apply.
+     * @returns {R} - The value returned by the valid function.
+     */
+    match<R>(cases: { valid: (value: T) => R, invalid: (errors: NonEmptyArray<E>) => R }): R {
+        return cases.valid(this.value);
+    }
+
+    /**
+     * Retrieves the valid value, or the default value if the Validated is an Invalid.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Validated is an Invalid.
+     * @returns {T | U} - The valid value.
+     */
+    getOrElse<U>(defaultValue: U): T | U {
+        return this.value;
+    }
+
+    /**
+     * Converts the Validated into a Result.
+     * @template F - The type of the error value of the Result.
+     * @param {(errors: NonEmptyArray<E>) => F} [mapErrors] - A function combining the errors into the error value.
+     * Defaults to an AggregateError holding the errors.
+     * @returns {Result<T, F>} - An Ok with the valid value.
+     */
+    toResult<F = AggregateError>(mapErrors?: (errors: NonEmptyArray<E>) => F): Result<T, F> {
+        return Ok.ok(this.value);
+    }
+
+    /**
+     * Converts the Validated into an Either, with the errors on the left side.
+     * @returns {Either<NonEmptyArray<E>, T>} - A Right with the valid value.
+     */
+    toEither(): Either<NonEmptyArray<E>, T> {
+        return Right.right(this.value);
+    }
+}
+
+/**
+ * Represents a failed validation with every error found.
+ *
+ * Invalid and {@link Valid} share the same API, so a {@link Validated} can be chained without narrowing it first.
+ *
+ * @template E - The type of the errors.
+ * @template T - The type of the valid value of the Validated this Invalid belongs to.
+ */
+export class Invalid<E, T = never> {
+    constructor(readonly errors: NonEmptyArray<E>) {
+    }
+
+    /**
+     * Checks if this Validated is a Valid, narrowing its type.
+     * @returns {boolean} - Always false.
+     */
+    isValid(): this is Valid<T, E> {
+        return false;
+    }
+
+    /**
+     * Checks if this Validated is an Invalid, narrowing its type.
+     * @returns {boolean} - Always true.
+     */
+    isInvalid(): this is Invalid<E, T> {
+        return true;
+    }
+
+    /**
+     * Maps the valid value to a new value. Does nothing on an Invalid.
+     * @template U - The type of the new value.
+     * @param {(value: T) => U} mapper - A function to transform the valid value.
+     * @returns {Validated<U, E>} - This Invalid.
+     */
+    map<U>(mapper: (value: T) => U): Validated<U, E> {
+        return this as unknown as Invalid<E, U>;
+    }
+
+    /**
+     * Maps every error to a new error.
+     * @template F - The type of the new errors.
+     * @param {(error: E) => F} mapper - A function to transform each error.
+     * @returns {Validated<T, F>} - A new Invalid with the transformed errors.
+     */
+    mapErrors<F>(mapper: (error: E) => F): Validated<T, F> {
+        return new Invalid<F, T>(this.errors.map(mapper) as NonEmptyArray<F>);
+    }
+
+    /**
+     * Chains a validation that depends on the valid value. Does nothing on an Invalid.
+     * @template U - The type of the valid value of the new Validated.
+     * @template F - The type of the errors of the new Validated.
+     * @param {(value: T) => Validated<U, F>} mapper - A function validating the valid value.
+     * @returns {Validated<U, E | F>} - This Invalid.
+     */
+    andThen<U, F = E>(mapper: (value: T) => Validated<U, F>): Validated<U, E | F> {
+        return this as unknown as Invalid<E, U>;
+    }
+
+    /**
+     * Applies the function matching the variant of the Validated.
+     * @template R - The type of the returned value.
+     * @param {{valid: (value: T) => R, invalid: (errors: NonEmptyArray<E>) => R}} cases - The functions to apply.
+     * @returns {R} - The value returned by the invalid function.
+     */
+    match<R>(cases: { valid: (value: T) => R, invalid: (errors: NonEmptyArray<E>) => R }): R {
+        return cases.invalid(this.errors);
+    }
+
+    /**
+     * Retrieves the valid value, or the default value if the Validated is an Invalid.
+     * @template U - The type of the default value.
+     * @param {U} defaultValue - The value to return if the Validated is an Invalid.
+     * @returns {T | U} - The default value.
+     */
+    getOrElse<U>(defaultValue: U): T | U {
+        return defaultValue;
+    }
+
+    /**
+     * Converts the Validated into a Result.
+     * @template F - The type of the error value of the Result.
+     * @param {(errors: NonEmptyArray<E>) => F} [mapErrors] - A function combining the errors into the error value.
+     * Defaults to an AggregateError holding the errors.
+     * @returns {Result<T, F>} - An Err with the combined errors.
+     */
+    toResult<F = AggregateError>(mapErrors?: (errors: NonEmptyArray<E>) => F): Result<T, F> {
+        return Err.error(mapErrors ? mapErrors(this.errors) : new AggregateError(this.errors, "Validation failed") as unknown as F);
+    }
+
+    /**
+     * Converts the Validated into an Either, with the errors on the left side.
+     * @returns {Either<NonEmptyArray<E>, T>} - A Left with the errors.
+     */
+    toEither(): Either<NonEmptyArray<E>, T> {
+        return Left.left(this.errors);
+    }
+}
+
+/**
+ * An error found by a field-level validator, together with the path of the field, such as `"address.city"` or
+ * `"items[2].quantity"`.
+ *
+ * @template E - The type of the error.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export class FieldError<E> {
+    constructor(readonly path: string, readonly error: E) {
+    }
+
+    /**
+     * Returns the error prefixed with its path.
+     * @returns {string} - A string such as `"address.city: must not be blank"`.
+     */
+    toString(): string {
+        return `${this.path}: ${this.error}`;
+    }
+}
+
+type ValidOf<V> = V extends Valid<infer T, any> ? T : never;
+
+type InvalidOf<V> = V extends Invalid<infer E, any> ? E : never;
+
+type ValidatedValues<T extends readonly Validated<any, any>[]> = {
+    -readonly [K in keyof T]: ValidOf<T[K]>
+};
+
+type LeafError<E> = E extends FieldError<infer L> ? L : E;
+
+type FieldValidators = Record<string, (value: never) => Validated<unknown, unknown>>;
+
+type FieldValues<S extends FieldValidators> = {
+    [K in keyof S]: ValidOf<ReturnType<S[K]>>
+};
+
+type FieldInput<S extends FieldValidators> = {
+    [K in keyof S]: Parameters<S[K]>[0]
+};
+
+type FieldErrorOf<S extends FieldValidators> = FieldError<LeafError<InvalidOf<ReturnType<S[keyof S]>>>>;
+
+/**
+ * Prefixes the paths of the errors with the given segment, wrapping plain errors into FieldErrors.
+ */
+function atPath<T, E>(segment: string, validated: Validated<T, E>): Validated<T, FieldError<LeafError<E>>> {
+    return validated.mapErrors(error => error instanceof FieldError
+        ? new FieldError(error.path.startsWith("[") ? `${segment}${error.path}` : `${segment}.${error.path}`, error.error)
+        : new FieldError(segment, error as LeafError<E>));
+}
+
+/**
+ * Companion object of the Validated type, providing the creation and the combination of Validated values.
+ *
+ * @since version 1.11.0
+ * @author Manuel Santos <ney.br.santos@gmail.com>
+ */
+export const Validated = {
+
+    /**
+     * Creates a Valid with the specified value.
+     * @template T - The type of the valid value.
+     * @param {T} value - The valid value.
+     * @returns {Valid<T>} - A Valid.
+     */
+    valid<T>(value: T): Valid<T> {
+        return new Valid(value);
+    },
+
+    /**
+     * Creates an Invalid with the specified errors.
+     * @template E - The type of the errors.
+     * @param {E} error - The first error.
+     * @param {E[]} errors - The other errors.
+     * @returns {Invalid<E>} - An Invalid.
+     */
+    invalid<E>(error: E, ...errors: E[]): Invalid<E> {
+        return new Invalid([error, ...errors]);
+    },
+
+    /**
+     * Combines several Validated values into a Validated of a tuple holding all their values. If any of them is
+     * invalid, the errors of all the invalid ones are accumulated, in order.
+     *
+     * @template T - The types of the Validated values.
+     * @param {T} validateds - The Validated values to combine.
+     * @returns {Validated} - A Valid with the tuple of values, or an Invalid with every error.
+     *
+     * @example
+     * Validated.combine([Validated.valid(1), Validated.invalid("a"), Validated.invalid("b", "c")]); // Invalid(["a", "b", "c"])
+     */
+    combine<T extends readonly Validated<any, any>[] | []>(validateds: T): Validated<ValidatedValues<T>, InvalidOf<T[number]>> {
+        const values: unknown[] = [];
+        const errors: InvalidOf<T[number]>[] = [];
+        for (const validated of validateds as readonly Validated<unknown, InvalidOf<T[number]>>[]) {
+            if (validated.isValid()) {
+                values.push(validated.value);
+            } else {
+                errors.push(...(validated as Invalid<InvalidOf<T[number]>, unknown>).errors);
+            }
+        }
+        return errors.length > 0
+            ? new Invalid(errors as NonEmptyArray<InvalidOf<T[number]>>)
+            : new Valid(values as ValidatedValues<T>);
+    },
+
+    /**
+     * Combines the values of several Validated values using a combiner function, accumulating the errors of all the
+     * invalid ones.
+     *
+     * @template T - The types of the Validated values.
+     * @template R - The type of the combined value.
+     * @param {T} validateds - The Validated values to combine.
+     * @param {(...values) => R} combiner - A function combining all the valid values.
+     * @returns {Validated<R, InvalidOf<T[number]>>} - A Valid with the combined value, or an Invalid with every error.
+     *
+     * @example
+     * const user = Validated.mapN([validateName(name), validateAge(age)], (name, age) => ({name, age}));
+     */
+    mapN<T extends readonly Validated<any, any>[] | [], R>(
+        validateds: T,
+        combiner: (...values: ValidatedValues<T>) => R
+    ): Validated<R, InvalidOf<T[number]>> {
+        return Validated.combine(validateds).map(values => combiner(...values));
+    },
+
+    /**
+     * Converts a Result into a Validated, with the error of an Err as the only error.
+     * @template T - The type of the success value.
+     * @template E - The type of the error value.
+     * @param {Result<T, E>} result - The Result to convert.
+     * @returns {Validated<T, E>} - A Valid with the success value, or an Invalid with the error.
+     */
+    fromResult<T, E>(result: Result<T, E>): Validated<T, E> {
+        return result.match<Validated<T, E>>({ok: value => new Valid(value), err: error => new Invalid([error])});
+    },
+
+    /**
+     * Converts an Either into a Validated, with the left value as the only error.
+     * @template L - The type of the left value.
+     * @template R - The type of the right value.
+     * @param {Either<L, R>} either - The Either to convert.
+     * @returns {Validated<R, L>} - A Valid with the right value, or an Invalid with the left value.
+     */
+    fromEither<L, R>(either: Either<L, R>): Validated<R, L> {
+        return either.isRight() ? new Valid(either.value) : new Invalid([either.value]);
+    },
+
+    /**
+     * Builds a validator for a record from a validator per field. Every field is validated, and each error is reported
+     * as a {@link FieldError} with the path of the field. Nested record and array validators extend the path.
+     *
+     * @template S - The record of field validators.
+     * @param {S} validators - A validator for each field of the record.
+     * @returns {(input) => Validated} - A validator of the whole record.
+     *
+     * @example
+     * const validateUser = Validated.fields({
+     *     name: (name: string) => name.trim() ? Validated.valid(name) : Validated.invalid("must not be blank"),
+     *     address: Validated.fields({
+     *         city: (city: string) => city ? Validated.valid(city) : Validated.invalid("is required")
+     *     })
+     * });
+     * validateUser({name: "", address: {city: ""}});
+     * // Invalid([FieldError("name", "must not be blank"), FieldError("address.city", "is required")])
+     */
+    fields<S extends FieldValidators>(validators: S): (input: FieldInput<S>) => Validated<FieldValues<S>, FieldErrorOf<S>> {
+        const keys = Object.keys(validators);
+        return input => {
+            const validated = Validated.combine(
+                keys.map(key => atPath(key, validators[key]((input as Record<string, unknown> | undefined)?.[key] as never)))
+            ).map(values => Object.fromEntries(keys.map((key, index) => [key, values[index]])) as FieldValues<S>);
+            return validated as Validated<FieldValues<S>, FieldErrorOf<S>>;
+        };
+    },
+
+    /**
+     * Builds a validator for an array from a validator of its items. Every item is validated, and each error is
+     * reported as a {@link FieldError} with the index of the item, such as `"[2]"`.
+     *
+     * @template A - The type of the items.
+     * @template T - The type of the valid items.
+     * @template E - The type of the errors.
+     * @param {(item: A, index: number) => Validated<T, E>} validator - The validator of each item.
+     * @returns {(items: readonly A[]) => Validated<T[], FieldError<LeafError<E>>>} - A validator of the whole array.
+     *
+     * @example
+     * const validateTags = Validated.each((tag: string) => tag.length <= 10 ? Validated.valid(tag) : Validated.invalid("too long"));
+     */
+    each<A, T, E>(validator: (item: A, index: number) => Validated<T, E>): (items: readonly A[]) => Validated<T[], FieldError<LeafError<E>>> {
+        return items => Validated.combine(
+            items.map((item, index) => atPath(`[${index}]`, validator(item, index)))
+        ) as Validated<T[], FieldError<LeafError<E>>>;
+    }
+};
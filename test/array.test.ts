@@ -141,5 +141,34 @@ describe('Array Functions', () => {
             expect(shuffledArray.length).toEqual(5);
             expect(shuffledArray).not.toEqual([1, 2, 3, 4, 5]); // due to randomness
         });
+
+        test('mapResult', () => {
+            const doubled = array.mapResult(element => ok(element * 2));
+            expect(doubled.get()).toEqual([2, 4, 6, 8, 10]);
+
+            const mapper = jest.fn((element: number) => element > 2 ? error(`Too large: ${element}`) : ok(element));
+            const failed = array.mapResult(mapper);
+            expect(failed.isErr()).toBe(true);
+            expect(() => failed.get()).toThrow('Too large: 3');
+            expect(mapper).toHaveBeenCalledTimes(3);
+        });
+
+        test('filterOk', () => {
+            const values = array.map(element => element % 2 === 0 ? ok(element) : error(`Odd: ${element}`)).filterOk();
+            expect(values).toEqual([2, 4]);
+        });
+
+        test('partitionMap', () => {
+            const {lefts, rights} = array.partitionMap(element => element % 2 === 0 ? right(element) : left(`Odd: ${element}`));
+            expect(lefts).toEqual(['Odd: 1', 'Odd: 3', 'Odd: 5']);
+            expect(rights).toEqual([2, 4]);
+        });
+
+        test('partitionMapAsync', async () => {
+            const {lefts, rights} = await array.partitionMapAsync(async element =>
+                element > 3 ? left(`Too large: ${element}`) : right(element * 10));
+            expect(lefts).toEqual(['Too large: 4', 'Too large: 5']);
+            expect(rights).toEqual([10, 20, 30]);
+        });
     });
 });
@@ -0,0 +1,110 @@
+import {AsyncOptional, Optional} from "../src";
+import "../src";
+
+describe('AsyncOptional Class Tests', () => {
+    describe('Creation', () => {
+        it('should create a present AsyncOptional using Optional.ofAsync()', async () => {
+            const optional = await Optional.ofAsync(Promise.resolve(42));
+            expect(optional.isPresent()).toBe(true);
+            expect(optional.get()).toBe(42);
+        });
+
+        it('should create an empty AsyncOptional for a promise resolving to null', async () => {
+            const optional = await Optional.ofAsync(Promise.resolve(null));
+            expect(optional.isEmpty()).toBe(true);
+        });
+
+        it('should convert an Optional using toAsync()', async () => {
+            const optional = await Optional.of("Katxupa").toAsync();
+            expect(optional.get()).toBe("Katxupa");
+        });
+
+        it('should create an empty AsyncOptional', async () => {
+            const optional = await AsyncOptional.empty<number>();
+            expect(optional.isEmpty()).toBe(true);
+        });
+    });
+
+    describe('AsyncOptional.map()', () => {
+        it('should chain sync and async mappers', async () => {
+            const result = await Optional.ofAsync(Promise.resolve(5))
+                .map(value => value * 2)
+                .map(async value => `${value}!`)
+                .orElse("none");
+            expect(result).toBe("10!");
+        });
+
+        it('should not call the mapper for an empty AsyncOptional', async () => {
+            const mapper = jest.fn((value: number) => value * 2);
+            const optional = await AsyncOptional.empty<number>().map(mapper);
+            expect(optional.isEmpty()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('AsyncOptional.flatMap()', () => {
+        it('should flatten Optional, promise and AsyncOptional results', async () => {
+            const result = await Optional.of(2).toAsync()
+                .flatMap(value => Optional.of(value + 1))
+                .flatMap(async value => Optional.of(value * 10))
+                .flatMap(value => Optional.ofAsync(Promise.resolve(value + 1)))
+                .orElse(0);
+            expect(result).toBe(31);
+        });
+
+        it('should become empty when the mapper returns an empty Optional', async () => {
+            const optional = await Optional.of(2).toAsync().flatMap(() => Optional.empty<number>());
+            expect(optional.isEmpty()).toBe(true);
+        });
+    });
+
+    describe('AsyncOptional.filter()', () => {
+        it('should keep the value when the async predicate holds', async () => {
+            const optional = await Optional.of(42).toAsync().filter(async value => value > 10);
+            expect(optional.get()).toBe(42);
+        });
+
+        it('should become empty when the predicate fails', async () => {
+            const optional = await Optional.of(42).toAsync().filter(value => value < 10);
+            expect(optional.isEmpty()).toBe(true);
+        });
+
+        it('should filter the elements of arrays, Maps and Sets like Optional.filter()', async () => {
+            const isEven = async (value: any) => value % 2 === 0;
+            expect((await Optional.of([1, 2, 3, 4]).toAsync().filter(isEven)).get()).toEqual([2, 4]);
+            expect((await Optional.of(new Map([['a', 1], ['b', 2]])).toAsync().filter(isEven)).get()).toEqual(new Map([['b', 2]]));
+            expect((await Optional.of(new Set([1, 2, 3])).toAsync().filter(isEven)).get()).toEqual(new Set([2]));
+            expect((await Optional.of([1, 3]).toAsync().filter(isEven)).isEmpty()).toBe(true);
+        });
+    });
+
+    describe('Terminal operations', () => {
+        it('should return the value or the default using orElse()', async () => {
+            expect(await Optional.of(1).toAsync().orElse(2)).toBe(1);
+            expect(await AsyncOptional.empty<number>().orElse(2)).toBe(2);
+        });
+
+        it('should return the supplied default using orElseGet()', async () => {
+            expect(await AsyncOptional.empty<number>().orElseGet(async () => 3)).toBe(3);
+        });
+
+        it('should reject with the provided error using orElseThrow()', async () => {
+            await expect(AsyncOptional.empty().orElseThrow(() => new Error('Expected'))).rejects.toThrow('Expected');
+            await expect(Optional.of(1).toAsync().orElseThrow(() => new Error('Unexpected'))).resolves.toBe(1);
+        });
+
+        it('should await an async consumer using ifPresent()', async () => {
+            let result = 0;
+            await Optional.of(42).toAsync().ifPresent(async value => {
+                await Promise.resolve();
+                result = value;
+            });
+            expect(result).toBe(42);
+        });
+
+        it('should propagate rejections of the underlying promise', async () => {
+            const optional = Optional.ofAsync(Promise.reject(new Error('Failed'))).map(value => value);
+            await expect(optional.orElse(0)).rejects.toThrow('Failed');
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import {AsyncResult, Err, Ok, Result} from "../src";
+import "../src";
+
+describe('AsyncResult Class Tests', () => {
+    const parse = (input: string): Result<number, string> => {
+        const value = Number(input);
+        return isNaN(value) ? error(`Invalid number: ${input}`) : ok(value);
+    };
+
+    const delayed = <T>(value: T, ms: number): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+    describe('Creation', () => {
+        it('should create an AsyncResult from a Result or a promise of a Result', async () => {
+            expect((await AsyncResult.from(ok(1))).get()).toBe(1);
+            expect((await AsyncResult.from(Promise.resolve(parse('x')))).isErr()).toBe(true);
+        });
+
+        it('should create an AsyncResult using ok() and error()', async () => {
+            expect((await AsyncResult.ok(Promise.resolve(42))).get()).toBe(42);
+            expect((await AsyncResult.error('failed')).isErr()).toBe(true);
+        });
+
+        it('should capture a rejected promise using fromPromise()', async () => {
+            const result = await AsyncResult.fromPromise(Promise.reject(new Error('Network error')));
+            expect(result instanceof Err).toBe(true);
+            expect(() => result.get()).toThrow('Network error');
+        });
+
+        it('should convert a Result using toAsync()', async () => {
+            const result = await parse('2').toAsync().map(value => value * 2);
+            expect(result.get()).toBe(4);
+        });
+    });
+
+    describe('Chaining', () => {
+        it('should map with sync and async functions', async () => {
+            const result = await AsyncResult.ok(5)
+                .map(value => value * 2)
+                .map(async value => `${value}!`);
+            expect(result.get()).toBe('10!');
+        });
+
+        it('should map the error with sync and async functions', async () => {
+            const result = await AsyncResult.error('failed')
+                .mapErr(message => message.toUpperCase())
+                .mapErr(async message => new Error(message));
+            expect(() => result.get()).toThrow('FAILED');
+        });
+
+        it('should chain Results, promises of Results and AsyncResults using andThen()', async () => {
+            const result = await AsyncResult.ok('20')
+                .andThen(parse)
+                .andThen(async value => ok(value + 1))
+                .andThen(value => AsyncResult.ok(value * 2));
+            expect(result.get()).toBe(42);
+        });
+
+        it('should short-circuit on the first Err', async () => {
+            const mapper = jest.fn((value: number) => value + 1);
+            const result = await AsyncResult.ok('x').andThen(parse).map(mapper);
+            expect(result.isErr()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Terminal operations', () => {
+        it('should match on both variants', async () => {
+            const cases = {ok: (value: number) => `number ${value}`, err: async (message: string) => message};
+            expect(await parse('1').toAsync().match(cases)).toBe('number 1');
+            expect(await parse('x').toAsync().match(cases)).toBe('Invalid number: x');
+        });
+
+        it('should return the value or the default using unwrapOr()', async () => {
+            expect(await parse('1').toAsync().unwrapOr(0)).toBe(1);
+            expect(await parse('x').toAsync().unwrapOr(0)).toBe(0);
+        });
+    });
+
+    describe('AsyncResult.all()', () => {
+        it('should combine all the values into a tuple', async () => {
+            const result = await AsyncResult.all([ok(1), Promise.resolve(ok('two')), AsyncResult.ok(true)]);
+            expect(result.get()).toEqual([1, 'two', true]);
+        });
+
+        it('should resolve to the first Err without waiting for the others', async () => {
+            const start = Date.now();
+            const result = await AsyncResult.all([delayed(ok(1), 200), Promise.resolve(error('failed'))]);
+            expect(result.isErr()).toBe(true);
+            expect(Date.now() - start).toBeLessThan(150);
+        });
+
+        it('should resolve to an empty tuple for no Results', async () => {
+            expect((await AsyncResult.all([])).get()).toEqual([]);
+        });
+    });
+
+    describe('AsyncResult.any()', () => {
+        it('should resolve to the first Ok', async () => {
+            const result = await AsyncResult.any([delayed(ok(1), 50), Promise.resolve(error('failed')), delayed(ok(2), 10)]);
+            expect(result instanceof Ok).toBe(true);
+            expect(result.get()).toBe(2);
+        });
+
+        it('should resolve to an AggregateError when all of them fail', async () => {
+            const result = await AsyncResult.any([error('first'), Promise.resolve(error(new Error('second')))]);
+            expect(result.isErr()).toBe(true);
+            if (result.isErr()) {
+                expect(result.error).toBeInstanceOf(AggregateError);
+                expect(result.error.errors[0]).toBe('first');
+                expect(result.error.errors[1].message).toBe('second');
+            }
+        });
+    });
+});
@@ -41,4 +41,19 @@ describe('Prototype Extensions', () => {
             expect(result).toBe(1);
         });
     });
+
+    describe('Date.compareTo', () => {
+        test('compares dates', () => {
+            const result = new Date('2023-01-01').compareTo(new Date('2023-01-15'));
+            expect(result).toBe(-1209600000);
+        });
+    });
+
+    describe('BigInt.compareTo', () => {
+        test('compares bigints', () => {
+            expect((10n ** 20n).compareTo(10n ** 21n)).toBe(-1);
+            expect((10n ** 21n).compareTo(10n ** 20n)).toBe(1);
+            expect((5n).compareTo(5n)).toBe(0);
+        });
+    });
 });
@@ -1,4 +1,4 @@
-import {Left, Right} from "../src";
+import {Either, Err, Left, Ok, Optional, Right} from "../src";
 import  "../src";
 
 describe('Either class and utility functions', () => {
@@ -16,6 +16,201 @@ describe('Either class and utility functions', () => {
         });
     });
 
+    describe('Either API', () => {
+        const parse = (input: string): Either<string, number> => {
+            const value = Number(input);
+            return isNaN(value) ? left(`Invalid number: ${input}`) : right(value);
+        };
+
+        it('should narrow an Either using isLeft and isRight', () => {
+            const either = parse('42');
+            expect(either.isRight()).toBe(true);
+            expect(either.isLeft()).toBe(false);
+            if (either.isRight()) {
+                expect(either.value).toBe(42);
+            }
+            const failure = parse('x');
+            expect(failure.isLeft()).toBe(true);
+            if (failure.isLeft()) {
+                expect(failure.value).toBe('Invalid number: x');
+            }
+        });
+
+        it('should map and chain the right value', () => {
+            const half = (value: number): Either<string, number> => value % 2 === 0 ? right(value / 2) : left(`Odd: ${value}`);
+            expect(parse('21').map(value => value * 2).flatMap(half).getOrElse(0)).toBe(21);
+            expect(parse('21').flatMap(half).fold(l => l, r => `${r}`)).toBe('Odd: 21');
+        });
+
+        it('should leave a Left untouched using map and flatMap', () => {
+            const mapper = jest.fn((value: number) => value + 1);
+            const either = parse('x').map(mapper).flatMap(value => right(value));
+            expect(either.isLeft()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+
+        it('should map the left value using mapLeft and bimap', () => {
+            expect(parse('x').mapLeft(message => message.length).get()).toBe(17);
+            expect(parse('1').mapLeft(message => message.length).get()).toBe(1);
+            expect(parse('x').bimap(message => message.toUpperCase(), value => value + 1).get()).toBe('INVALID NUMBER: X');
+            expect(parse('1').bimap(message => message.toUpperCase(), value => value + 1).get()).toBe(2);
+        });
+
+        it('should swap the sides', () => {
+            expect(parse('1').swap() instanceof Left).toBe(true);
+            expect(parse('x').swap() instanceof Right).toBe(true);
+        });
+
+        it('should recover from a Left using orElse and getOrElse', () => {
+            expect(parse('x').orElse(() => parse('2')).get()).toBe(2);
+            expect(parse('1').orElse(() => parse('2')).get()).toBe(1);
+            expect(parse('x').getOrElse(-1)).toBe(-1);
+        });
+
+        it('should fold using the method', () => {
+            expect(parse('7').fold(message => message, value => `number ${value}`)).toBe('number 7');
+            expect(parse('x').fold(message => message, value => `number ${value}`)).toBe('Invalid number: x');
+        });
+
+        it('should capture exceptions using Either.tryCatch', () => {
+            expect(Either.tryCatch(() => JSON.parse('[1]')).get()).toEqual([1]);
+            const failure = Either.tryCatch(() => JSON.parse('['), e => `Invalid JSON: ${(e as Error).name}`);
+            expect(failure.isLeft()).toBe(true);
+            expect(failure.get()).toBe('Invalid JSON: SyntaxError');
+            expect(Either.tryCatch(() => {
+                throw 'boom';
+            }).get()).toBeInstanceOf(Error);
+        });
+
+        it('should wrap nullable values using Either.fromNullable', () => {
+            expect(Either.fromNullable(0, () => 'missing').get()).toBe(0);
+            expect(Either.fromNullable(null, () => 'missing').isLeft()).toBe(true);
+            expect(Either.fromNullable(undefined, () => 'missing').get()).toBe('missing');
+        });
+    });
+
+    describe('Conversions', () => {
+        it('should convert an Either to a Result', () => {
+            expect(right(1).toResult()).toEqual(new Ok(1));
+            expect(left('failed').toResult()).toEqual(new Err('failed'));
+        });
+
+        it('should convert an Either to an Optional', () => {
+            expect(right(1).toOptional().get()).toBe(1);
+            expect(left('failed').toOptional().isEmpty()).toBe(true);
+        });
+
+        it('should apply the emptiness policy when converting to an Optional', () => {
+            expect(right('').toOptional().isEmpty()).toBe(true);
+            expect(right([]).toOptional().isEmpty()).toBe(true);
+            expect(right(undefined).toOptional().isEmpty()).toBe(true);
+        });
+
+        it('should round-trip an Either through a Result', () => {
+            const eithers: Either<string, number>[] = [right(1), left('failed')];
+            eithers.forEach(either => expect(either.toResult().toEither()).toEqual(either));
+        });
+
+        it('should round-trip an Optional through an Either', () => {
+            [Optional.of('Katxupa'), Optional.empty<string>()].forEach(optional =>
+                expect(optional.toEither(() => 'missing').toOptional().equals(optional)).toBe(true));
+        });
+    });
+
+    describe('Collections', () => {
+        const parse = (input: string): Either<string, number> => {
+            const value = Number(input);
+            return isNaN(value) ? left(`Invalid number: ${input}`) : right(value);
+        };
+        const eithers = ['1', 'x', '3', 'y'].map(parse);
+
+        it('should split lefts and rights using Either.partition', () => {
+            expect(Either.partition(eithers)).toEqual({
+                lefts: ['Invalid number: x', 'Invalid number: y'],
+                rights: [1, 3]
+            });
+        });
+
+        it('should extract lefts and rights', () => {
+            expect(Either.lefts(eithers)).toEqual(['Invalid number: x', 'Invalid number: y']);
+            expect(Either.rights(eithers)).toEqual([1, 3]);
+        });
+
+        it('should combine the right values using Either.sequence', () => {
+            expect(Either.sequence(['1', '2'].map(parse)).get()).toEqual([1, 2]);
+            expect(Either.sequence(eithers).get()).toBe('Invalid number: x');
+        });
+
+        it('should stop at the first Left using Either.traverse', () => {
+            const mapper = jest.fn(parse);
+            const result = Either.traverse(['1', 'x', '3'], mapper);
+            expect(result.isLeft()).toBe(true);
+            expect(mapper).toHaveBeenCalledTimes(2);
+            expect(Either.traverse(['1', '2'], parse).get()).toEqual([1, 2]);
+        });
+
+        it('should combine promises of Eithers using Either.sequenceAsync', async () => {
+            const result = await Either.sequenceAsync([Promise.resolve(parse('1')), parse('2')]);
+            expect(result.get()).toEqual([1, 2]);
+        });
+
+        it('should map with async functions using Either.traverseAsync', async () => {
+            const result = await Either.traverseAsync(['1', 'x'], async value => parse(value));
+            expect(result.get()).toBe('Invalid number: x');
+        });
+    });
+
+    describe('Do-notation', () => {
+        it('should combine Right values using Either.gen', () => {
+            const result = Either.gen(function* () {
+                const a = yield* right(1);
+                const b = yield* right(2);
+                return a + b;
+            });
+            expect(result instanceof Right).toBe(true);
+            expect(result.get()).toBe(3);
+        });
+
+        it('should return the first Left using Either.gen', () => {
+            const result = Either.gen(function* () {
+                const a = yield* right(1);
+                const b = yield* left('first');
+                yield* left('second');
+                return a + b;
+            });
+            expect(result instanceof Left).toBe(true);
+            expect(result.get()).toBe('first');
+        });
+
+        it('should combine Right values using Either.genAsync', async () => {
+            const result = await Either.genAsync(async function* () {
+                const a = yield* await Promise.resolve(right(40));
+                return a + 2;
+            });
+            expect(result.get()).toBe(42);
+        });
+
+        it('should return the first Left using Either.genAsync', async () => {
+            const result = await Either.genAsync(async function* () {
+                return yield* await Promise.resolve(left('failed'));
+            });
+            expect(result instanceof Left).toBe(true);
+            expect(result.get()).toBe('failed');
+        });
+
+        it('should unwrap Eithers using bind, as with Optional.gen', async () => {
+            const result = await Either.genAsync(async function* () {
+                const a = yield* right(40).bind();
+                const b = yield* (await Promise.resolve(right(2))).bind();
+                return a + b;
+            });
+            expect(result.get()).toBe(42);
+            expect(Either.gen(function* () {
+                return yield* left('failed').bind();
+            }).get()).toBe('failed');
+        });
+    });
+
     describe('Utility functions', () => {
         it('should create an Either with a left value using left utility function', () => {
             const either = left('left value');
@@ -0,0 +1,94 @@
+import {Emptiness, Optional} from "../src";
+import "../src";
+
+describe('Emptiness Tests', () => {
+    describe('Built-in policies', () => {
+        it('should detect NaN', () => {
+            expect(Emptiness.nan(NaN)).toBe(true);
+            expect(Emptiness.nan(0)).toBe(false);
+        });
+
+        it('should detect blank strings', () => {
+            expect(Emptiness.blank('')).toBe(true);
+            expect(Emptiness.blank('  ')).toBe(true);
+            expect(Emptiness.blank('Katxupa')).toBe(false);
+        });
+
+        it('should detect empty collections', () => {
+            expect(Emptiness.emptyCollection([])).toBe(true);
+            expect(Emptiness.emptyCollection(new Map())).toBe(true);
+            expect(Emptiness.emptyCollection(new Set([1]))).toBe(false);
+        });
+
+        it('should detect invalid Dates', () => {
+            expect(Emptiness.invalidDate(new Date('not a date'))).toBe(true);
+            expect(Emptiness.invalidDate(new Date(0))).toBe(false);
+        });
+
+        it('should combine policies with any()', () => {
+            const policy = Emptiness.any(Emptiness.nan, value => value === 0);
+            expect(policy(NaN)).toBe(true);
+            expect(policy(0)).toBe(true);
+            expect(policy(1)).toBe(false);
+        });
+    });
+
+    describe('Optional.of() with emptyWhen', () => {
+        it('should keep NaN present by default', () => {
+            expect(Optional.of(NaN).isPresent()).toBe(true);
+        });
+
+        it('should apply a single policy', () => {
+            expect(Optional.of(NaN, {emptyWhen: Emptiness.nan}).isEmpty()).toBe(true);
+        });
+
+        it('should apply a list of policies', () => {
+            const policies = [Emptiness.nan, Emptiness.invalidDate];
+            expect(Optional.of(new Date('nope'), {emptyWhen: policies}).isEmpty()).toBe(true);
+            expect(Optional.of(new Date(0), {emptyWhen: policies}).isPresent()).toBe(true);
+        });
+
+        it('should replace the default policy', () => {
+            expect(Optional.of('', {emptyWhen: Emptiness.nan}).isPresent()).toBe(true);
+        });
+
+        it('should always treat null and undefined as empty', () => {
+            const never = () => false;
+            expect(Optional.of(null, {emptyWhen: never}).isEmpty()).toBe(true);
+            expect(Optional.of(undefined, {emptyWhen: never}).isEmpty()).toBe(true);
+        });
+    });
+
+    describe('Optional.ofNonEmpty()', () => {
+        it('should treat every built-in absent value as empty', () => {
+            expect(Optional.ofNonEmpty(NaN).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty('').isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty([]).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty(new Date('nope')).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty(0).get()).toBe(0);
+        });
+    });
+
+    describe('Optional.setEmptinessPolicy()', () => {
+        afterEach(() => Optional.resetEmptinessPolicy());
+
+        it('should change the default policy', () => {
+            Optional.setEmptinessPolicy(Emptiness.strict);
+            expect(Optional.of(NaN).isEmpty()).toBe(true);
+            expect(Optional.of(1).map(() => NaN).isEmpty()).toBe(true);
+        });
+
+        it('should accept a list of policies', () => {
+            Optional.setEmptinessPolicy([Emptiness.nullish, Emptiness.nan]);
+            expect(Optional.of(NaN).isEmpty()).toBe(true);
+            expect(Optional.of('').isPresent()).toBe(true);
+        });
+
+        it('should restore the standard policy', () => {
+            Optional.setEmptinessPolicy(Emptiness.strict);
+            Optional.resetEmptinessPolicy();
+            expect(Optional.of(NaN).isPresent()).toBe(true);
+            expect(Optional.of('').isEmpty()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import {Duration, Equality, Optional} from "../src";
+import "../src";
+
+describe('Equality', () => {
+    describe('equals', () => {
+        test('compares primitives by value', () => {
+            expect(Equality.equals(1, 1)).toBe(true);
+            expect(Equality.equals('a', 'b')).toBe(false);
+            expect(Equality.equals(NaN, NaN)).toBe(true);
+            expect(Equality.equals(null, undefined)).toBe(false);
+        });
+
+        test('compares plain objects and arrays structurally', () => {
+            expect(Equality.equals({a: [1, {b: 2}]}, {a: [1, {b: 2}]})).toBe(true);
+            expect(Equality.equals({a: 1}, {a: 1, b: 2})).toBe(false);
+            expect(Equality.equals([1, 2], [2, 1])).toBe(false);
+        });
+
+        test('compares dates by time', () => {
+            expect(Equality.equals(new Date(0), new Date(0))).toBe(true);
+            expect(Equality.equals(new Date(0), new Date(1))).toBe(false);
+        });
+
+        test('compares maps and sets structurally', () => {
+            expect(Equality.equals(new Map([['a', {x: 1}]]), new Map([['a', {x: 1}]]))).toBe(true);
+            expect(Equality.equals(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+            expect(Equality.equals(new Set([{x: 1}, 2]), new Set([2, {x: 1}]))).toBe(true);
+            expect(Equality.equals(new Set([1]), new Set([2]))).toBe(false);
+        });
+
+        test('matches the elements of sets one to one', () => {
+            const duplicated = new Set([{a: 1}, {a: 1}]);
+            const distinct = new Set([{a: 1}, {a: 2}]);
+            expect(Equality.equals(duplicated, distinct)).toBe(false);
+            expect(Equality.equals(distinct, duplicated)).toBe(false);
+            expect(Equality.equals(duplicated, new Set([{a: 1}, {a: 1}]))).toBe(true);
+        });
+
+        test('respects the equals method of the compared values', () => {
+            expect(Equality.equals(Duration.hours(1), Duration.minutes(60))).toBe(true);
+            expect(Equality.equals(Duration.hours(1), Duration.minutes(61))).toBe(false);
+        });
+
+        test('considers values with different prototypes as different', () => {
+            expect(Equality.equals([1], {0: 1})).toBe(false);
+            expect(Equality.equals(new Date(0), {})).toBe(false);
+        });
+
+        test('compares cyclic values without overflowing the stack', () => {
+            type Node = { id: number, next?: Node };
+            const cycle = (...ids: number[]): Node => {
+                const nodes: Node[] = ids.map(id => ({id}));
+                nodes.forEach((node, index) => node.next = nodes[(index + 1) % nodes.length]);
+                return nodes[0];
+            };
+            expect(Equality.equals(cycle(1, 2), cycle(1, 2))).toBe(true);
+            expect(Equality.equals(cycle(1, 2), cycle(1, 3))).toBe(false);
+            expect(Optional.of(cycle(1)).equals(Optional.of(cycle(1)))).toBe(true);
+            expect(Optional.of([cycle(1, 2)]).contains(cycle(1, 2))).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import {Either, Err, Ior, IorBoth, Left, Ok, Right, These} from "../src";
+import "../src";
+
+describe('Ior Tests', () => {
+    const concat = (first: string[], second: string[]) => [...first, ...second];
+
+    const parse = (row: string): Ior<string[], number> => {
+        const trimmed = row.trim();
+        const value = Number(trimmed);
+        if (isNaN(value)) {
+            return Ior.left([`Invalid row: ${row}`]);
+        }
+        return trimmed === row ? Ior.right(value) : Ior.both([`Trimmed row: ${trimmed}`], value);
+    };
+
+    describe('Cases', () => {
+        it('should narrow using isLeft, isRight and isBoth', () => {
+            const left = parse('x');
+            expect([left.isLeft(), left.isRight(), left.isBoth()]).toEqual([true, false, false]);
+            const right = parse('1');
+            expect([right.isLeft(), right.isRight(), right.isBoth()]).toEqual([false, true, false]);
+            const both = parse(' 1');
+            expect([both.isLeft(), both.isRight(), both.isBoth()]).toEqual([false, false, true]);
+            if (both.isBoth()) {
+                expect(both.left).toEqual(['Trimmed row: 1']);
+                expect(both.right).toBe(1);
+            }
+        });
+
+        it('should fold each case', () => {
+            const summary = (ior: Ior<string[], number>) => ior.fold(
+                errors => `failed: ${errors}`,
+                value => `ok: ${value}`,
+                (warnings, value) => `ok: ${value}, warnings: ${warnings}`
+            );
+            expect(summary(parse('x'))).toBe('failed: Invalid row: x');
+            expect(summary(parse('1'))).toBe('ok: 1');
+            expect(summary(parse(' 1'))).toBe('ok: 1, warnings: Trimmed row: 1');
+        });
+
+        it('should expose the same companion as These', () => {
+            const these: These<string, number> = These.both('warning', 1);
+            expect(these).toBeInstanceOf(IorBoth);
+        });
+    });
+
+    describe('Transformations', () => {
+        it('should map the right value and keep the left value', () => {
+            expect(parse('x').map(value => value * 2).getOrElse(0)).toBe(0);
+            expect(parse('2').map(value => value * 2).getOrElse(0)).toBe(4);
+            const both = parse(' 2').map(value => value * 2);
+            expect(both).toEqual(Ior.both(['Trimmed row: 2'], 4));
+        });
+
+        it('should map the left value', () => {
+            expect(parse('x').mapLeft(errors => errors.length)).toEqual(Ior.left(1));
+            expect(parse('1').mapLeft(errors => errors.length)).toEqual(Ior.right(1));
+            expect(parse(' 1').mapLeft(errors => errors.length)).toEqual(Ior.both(1, 1));
+        });
+
+        it('should accumulate the left values using flatMap', () => {
+            const positive = (value: number): Ior<string[], number> =>
+                value > 0 ? Ior.right(value) : Ior.both(['Not positive'], Math.abs(value));
+
+            expect(parse(' -1').flatMap(positive, concat)).toEqual(Ior.both(['Trimmed row: -1', 'Not positive'], 1));
+            expect(parse(' 1').flatMap(positive, concat)).toEqual(Ior.both(['Trimmed row: 1'], 1));
+            expect(parse('-1').flatMap(positive, concat)).toEqual(Ior.both(['Not positive'], 1));
+            expect(parse(' 1').flatMap(() => Ior.left(['Rejected']), concat)).toEqual(Ior.left(['Trimmed row: 1', 'Rejected']));
+        });
+
+        it('should not call the mapper or the combine function on a left', () => {
+            const mapper = jest.fn((value: number) => Ior.right<number>(value));
+            const combine = jest.fn(concat);
+            expect(parse('x').flatMap(mapper, combine)).toEqual(Ior.left(['Invalid row: x']));
+            expect(mapper).not.toHaveBeenCalled();
+            expect(combine).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Conversions', () => {
+        it('should convert into an Either keeping the right value of a Both by default', () => {
+            expect(parse('x').toEither()).toEqual(new Left(['Invalid row: x']));
+            expect(parse('1').toEither()).toEqual(new Right(1));
+            expect(parse(' 1').toEither()).toEqual(new Right(1));
+            expect(parse(' 1').toEither('left')).toEqual(new Left(['Trimmed row: 1']));
+        });
+
+        it('should convert into a Result keeping the right value of a Both by default', () => {
+            expect(parse('x').toResult()).toEqual(new Err(['Invalid row: x']));
+            expect(parse('1').toResult()).toEqual(new Ok(1));
+            expect(parse(' 1').toResult()).toEqual(new Ok(1));
+            expect(parse(' 1').toResult('left')).toEqual(new Err(['Trimmed row: 1']));
+        });
+
+        it('should create an Ior from an Either', () => {
+            expect(Ior.fromEither(Either.fromNullable(null, () => 'missing'))).toEqual(Ior.left('missing'));
+            expect(Ior.fromEither(right(1))).toEqual(Ior.right(1));
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import {Emptiness, LazyOptional, Optional} from "../src";
+import "../src";
+
+describe('LazyOptional Class Tests', () => {
+    describe('Evaluation', () => {
+        it('should not run the supplier until the value is accessed', () => {
+            const supplier = jest.fn(() => 42);
+            const lazy = Optional.lazy(supplier);
+            expect(supplier).not.toHaveBeenCalled();
+            expect(lazy.isEvaluated()).toBe(false);
+            expect(lazy.get()).toBe(42);
+            expect(lazy.isEvaluated()).toBe(true);
+        });
+
+        it('should run the supplier only once', () => {
+            const supplier = jest.fn(() => 'Katxupa');
+            const lazy = Optional.lazy(supplier);
+            lazy.isPresent();
+            lazy.orElse('none');
+            lazy.get();
+            expect(supplier).toHaveBeenCalledTimes(1);
+        });
+
+        it('should be empty when the supplier returns an absent value', () => {
+            expect(Optional.lazy(() => null).isEmpty()).toBe(true);
+            expect(Optional.lazy(() => NaN, {emptyWhen: Emptiness.nan}).isEmpty()).toBe(true);
+        });
+
+        it('should return the cached Optional using force()', () => {
+            const lazy = LazyOptional.from(() => Optional.of(5));
+            expect(lazy.force()).toBe(lazy.force());
+        });
+    });
+
+    describe('Transformations', () => {
+        it('should defer map, flatMap and filter', () => {
+            const supplier = jest.fn(() => 5);
+            const lazy = Optional.lazy(supplier)
+                .map(value => value * 2)
+                .flatMap(value => Optional.lazy(() => value + 1))
+                .filter(value => value > 10);
+            expect(supplier).not.toHaveBeenCalled();
+            expect(lazy.get()).toBe(11);
+        });
+
+        it('should share the cached value of the source', () => {
+            const supplier = jest.fn(() => 5);
+            const lazy = Optional.lazy(supplier);
+            expect(lazy.map(value => value + 1).get()).toBe(6);
+            expect(lazy.map(value => value + 2).get()).toBe(7);
+            expect(supplier).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Terminal operations', () => {
+        it('should return the supplied default using orElseGet()', () => {
+            expect(Optional.lazy<number>(() => undefined).orElseGet(() => 3)).toBe(3);
+        });
+
+        it('should throw the provided error using orElseThrow()', () => {
+            expect(() => Optional.lazy(() => null).orElseThrow(() => new Error('Expected'))).toThrow('Expected');
+        });
+
+        it('should execute the consumer using ifPresent()', () => {
+            let result = 0;
+            Optional.lazy(() => 42).ifPresent(value => result = value);
+            expect(result).toBe(42);
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import {Optional} from "../src";
+import {Duration, Err, Left, NoSuchElementError, None, Ok, Optional, Right, Some} from "../src";
 import  "../src";
 
 describe('Optional Class Tests', () => {
@@ -84,6 +84,25 @@ describe('Optional Class Tests', () => {
         });
     });
 
+    describe('Optional.raw()', () => {
+        it('should return the value for a non-empty Optional', () => {
+            expect(Optional.of(42).raw()).toBe(42);
+        });
+
+        it('should return the original value of an Optional emptied by the emptiness policy', () => {
+            const array: number[] = [];
+            expect(Optional.of('  ').raw()).toBe('  ');
+            expect(Optional.of(array).raw()).toBe(array);
+            expect(Optional.of('  ').isEmpty()).toBe(true);
+        });
+
+        it('should return undefined for null, undefined and empty Optionals', () => {
+            expect(Optional.of(null).raw()).toBeUndefined();
+            expect(Optional.of(undefined).raw()).toBeUndefined();
+            expect(Optional.empty().raw()).toBeUndefined();
+        });
+    });
+
     describe('Optional.orElse()', () => {
         it('should return the value for a non-empty Optional', () => {
             const value = 42;
@@ -317,6 +336,107 @@ describe('Optional Class Tests', () => {
             const optional2 = Optional.of(100);
             expect(optional1.equals(optional2)).toBe(false);
         });
+
+        it('should return true for two Optionals with structurally equal values', () => {
+            expect(Optional.of({id: 1, tags: ['a']}).equals(Optional.of({id: 1, tags: ['a']}))).toBe(true);
+            expect(Optional.of(new Date(0)).equals(Optional.of(new Date(0)))).toBe(true);
+        });
+
+        it('should respect the equals method of the wrapped values', () => {
+            expect(Optional.of(Duration.days(1)).equals(Optional.of(Duration.hours(24)))).toBe(true);
+        });
+
+        it('should use the provided equality function', () => {
+            const optional1 = Optional.of({id: 1, name: 'Manuel'});
+            const optional2 = Optional.of({id: 1, name: 'Manel'});
+            expect(optional1.equals(optional2)).toBe(false);
+            expect(optional1.equals(optional2, (a, b) => a.id === b.id)).toBe(true);
+        });
+    });
+
+    describe('Optional.contains()', () => {
+        it('should find structurally equal elements', () => {
+            const optional = Optional.of([{id: 1}, {id: 2}]);
+            expect(optional.contains({id: 2})).toBe(true);
+            expect(optional.contains({id: 3})).toBe(false);
+        });
+
+        it('should compare single values structurally', () => {
+            expect(Optional.of({id: 1}).contains({id: 1})).toBe(true);
+        });
+
+        it('should use the provided equality function', () => {
+            const optional = Optional.of(new Set([{id: 1, name: 'Manuel'}]));
+            expect(optional.contains({id: 1, name: 'Manel'}, (a, b) => a.id === b.id)).toBe(true);
+        });
+
+        it('should type the equality function with the element type', () => {
+            const optional = Optional.of([{id: 1}]);
+            // @ts-expect-error the elements have no name
+            expect(optional.contains({id: 1}, (a, b) => a.name === b.id)).toBe(false);
+        });
+
+        it('should check substrings for string values', () => {
+            expect(Optional.of('Katxupa').contains('xup')).toBe(true);
+        });
+    });
+});
+
+describe('Optional Variant Tests', () => {
+
+    describe('Some and None', () => {
+        it('should create a Some for a present value', () => {
+            const optional = Optional.of(42);
+            expect(optional instanceof Some).toBe(true);
+            expect(optionalOf('Katxupa') instanceof Some).toBe(true);
+        });
+
+        it('should create a None for an empty value', () => {
+            expect(Optional.empty() instanceof None).toBe(true);
+            expect(Optional.of(null) instanceof None).toBe(true);
+            expect(Optional.of('  ') instanceof None).toBe(true);
+            expect(Optional.of([]) instanceof None).toBe(true);
+        });
+
+        it('should expose the value of a Some after narrowing with isPresent()', () => {
+            const optional: Optional<{ name: string }> = Optional.of({name: 'Manuel'});
+            expect(optional.isPresent()).toBe(true);
+            if (optional.isPresent()) {
+                expect(optional.value.name).toBe('Manuel');
+            }
+        });
+
+        it('should throw when getting the value of a None', () => {
+            expect(() => new None().get()).toThrow('Value is not present');
+        });
+    });
+
+    describe('Optional.match() with cases', () => {
+        it('should call the some case for a present value', () => {
+            const result = Optional.of(5).match({some: value => value * 2, none: () => 0});
+            expect(result).toBe(10);
+        });
+
+        it('should call the none case for an empty value', () => {
+            const result = Optional.empty<number>().match({some: value => value * 2, none: () => 0});
+            expect(result).toBe(0);
+        });
+
+        it('should keep matching predicates and regular expressions', () => {
+            expect(Optional.of(5).match(value => value > 3)).toBe(true);
+            expect(Optional.of('Katxupa').match(/^K/)).toBe(true);
+            expect(Optional.empty<string>().match(/^K/)).toBe(false);
+        });
+    });
+
+    describe('Optional.fold()', () => {
+        it('should apply onSome for a present value', () => {
+            expect(Optional.of('Manuel').fold(() => 'Anonymous', name => name.toUpperCase())).toBe('MANUEL');
+        });
+
+        it('should apply onNone for an empty value', () => {
+            expect(Optional.empty<string>().fold(() => 'Anonymous', name => name.toUpperCase())).toBe('Anonymous');
+        });
     });
 });
 
@@ -396,6 +516,429 @@ describe('Optional Composition Tests', () => {
     });
 });
 
+describe('Optional Collection Tests', () => {
+
+    describe('Optional[Symbol.iterator]()', () => {
+        it('should iterate over the value of a non-empty Optional', () => {
+            const values = [];
+            for (const value of Optional.of(42)) {
+                values.push(value);
+            }
+            expect(values).toEqual([42]);
+        });
+
+        it('should not iterate over an empty Optional', () => {
+            expect([...Optional.empty()]).toEqual([]);
+            expect(Array.from(Optional.of(null))).toEqual([]);
+        });
+    });
+
+    describe('Optional.toArray() and toSet()', () => {
+        it('should convert a non-empty Optional', () => {
+            expect(Optional.of(5).toArray()).toEqual([5]);
+            expect([...Optional.of(5).toSet()]).toEqual([5]);
+        });
+
+        it('should convert an empty Optional', () => {
+            expect(Optional.empty().toArray()).toEqual([]);
+            expect(Optional.empty().toSet().size).toBe(0);
+        });
+    });
+
+    describe('Optional.toResult()', () => {
+        it('should convert a non-empty Optional to Ok', () => {
+            const result = Optional.of(5).toResult(() => 'missing');
+            expect(result instanceof Ok).toBe(true);
+            expect(result.get()).toBe(5);
+        });
+
+        it('should convert an empty Optional to Err', () => {
+            const result = Optional.empty<number>().toResult(() => 'missing');
+            expect(result instanceof Err).toBe(true);
+            expect(() => result.get()).toThrow('missing');
+        });
+    });
+
+    describe('Optional.toEither()', () => {
+        it('should convert a non-empty Optional to Right', () => {
+            const either = Optional.of(5).toEither(() => 'missing');
+            expect(either instanceof Right).toBe(true);
+            expect(either.get()).toBe(5);
+        });
+
+        it('should convert an empty Optional to Left', () => {
+            const either = Optional.empty<number>().toEither(() => 'missing');
+            expect(either instanceof Left).toBe(true);
+            expect(either.get()).toBe('missing');
+        });
+    });
+
+    describe('Optional.flattenAll()', () => {
+        it('should extract the values of present Optionals', () => {
+            const values = Optional.flattenAll([Optional.of(1), Optional.empty<number>(), Optional.of(3)]);
+            expect(values).toEqual([1, 3]);
+        });
+    });
+});
+
+describe('Optional Zip Tests', () => {
+
+    describe('Optional.zip()', () => {
+        it('should zip present Optionals into a tuple', () => {
+            const result = Optional.zip(Optional.of(1), Optional.of('one'), Optional.of(true));
+            expect(result.get()).toEqual([1, 'one', true]);
+        });
+
+        it('should return an empty Optional if any Optional is empty', () => {
+            const result = Optional.zip(Optional.of(1), Optional.empty<string>());
+            expect(result.isEmpty()).toBe(true);
+        });
+
+        it('should zip no Optionals into an empty tuple', () => {
+            expect(Optional.zip().get()).toEqual([]);
+        });
+    });
+
+    describe('Optional.zipWith()', () => {
+        it('should combine the values of present Optionals', () => {
+            const result = Optional.zipWith([Optional.of('Manuel'), Optional.of('Santos')], (first, last) => `${first} ${last}`);
+            expect(result.get()).toBe('Manuel Santos');
+        });
+
+        it('should not call the combiner if any Optional is empty', () => {
+            const combiner = jest.fn();
+            const result = Optional.zipWith([Optional.empty<number>(), Optional.of(2)], combiner);
+            expect(result.isEmpty()).toBe(true);
+            expect(combiner).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Optional.combine()', () => {
+        it('should combine a record of present Optionals', () => {
+            const result = Optional.combine({user: Optional.of({name: 'Manuel'}), org: Optional.of({name: 'Katxupa'})});
+            expect(result.get()).toEqual({user: {name: 'Manuel'}, org: {name: 'Katxupa'}});
+        });
+
+        it('should return an empty Optional if any Optional in the record is empty', () => {
+            const result = Optional.combine({user: Optional.of({name: 'Manuel'}), org: Optional.empty()});
+            expect(result.isEmpty()).toBe(true);
+        });
+    });
+});
+
+describe('Optional Path Tests', () => {
+    const order = {
+        id: 1,
+        customer: {name: 'Manuel', addresses: [{city: 'Praia'}], phone: null as string | null},
+    };
+
+    describe('Optional.path()', () => {
+        it('should return the value at a nested path', () => {
+            expect(Optional.path(order, 'customer.addresses[0].city').get()).toBe('Praia');
+            expect(Optional.path(order, 'id').get()).toBe(1);
+        });
+
+        it('should return an empty Optional when a value along the path is missing', () => {
+            expect(Optional.path(order, 'customer.addresses[1].city').isEmpty()).toBe(true);
+            expect(Optional.path(order, 'customer.phone').isEmpty()).toBe(true);
+        });
+    });
+
+    describe('Optional.at()', () => {
+        it('should return the value at a nested path', () => {
+            expect(Optional.of(order).at('customer', 'addresses', 0, 'city').get()).toBe('Praia');
+        });
+
+        it('should return an empty Optional for an empty Optional', () => {
+            expect(Optional.empty<typeof order>().at('customer', 'name').isEmpty()).toBe(true);
+        });
+    });
+
+    describe('Optional.set()', () => {
+        it('should return an updated copy without mutating the original object', () => {
+            const updated = Optional.set(order, 'customer.addresses[0].city', 'Mindelo');
+            expect(updated.customer.addresses[0].city).toBe('Mindelo');
+            expect(order.customer.addresses[0].city).toBe('Praia');
+            expect(updated.customer).not.toBe(order.customer);
+        });
+
+        it('should create missing objects and arrays along the path', () => {
+            const updated = Optional.set({} as { a?: { b?: number[] } }, 'a.b[0]', 5);
+            expect(updated).toEqual({a: {b: [5]}});
+        });
+
+        it('should reject values along the path that are not plain objects or arrays', () => {
+            const event = {date: new Date(0)};
+            expect(() => Optional.set(event, 'date.time' as any, 1)).toThrow("Cannot update 'time' of [object Date]");
+            expect(event.date.getTime()).toBe(0);
+        });
+    });
+
+    describe('Optional.updatePath()', () => {
+        it('should update the value using the current value', () => {
+            const updated = Optional.updatePath(order, 'id', id => id.orElse(0) + 1);
+            expect(updated.id).toBe(2);
+            expect(order.id).toBe(1);
+        });
+    });
+});
+
+describe('Optional Do-Notation Tests', () => {
+
+    describe('Optional.gen()', () => {
+        it('should combine present Optionals', () => {
+            const result = Optional.gen(function* () {
+                const a = yield* Optional.of(1).bind();
+                const b = yield* Optional.of(2).bind();
+                return a + b;
+            });
+            expect(result.get()).toBe(3);
+        });
+
+        it('should short-circuit on the first empty Optional', () => {
+            const reached = jest.fn();
+            const result = Optional.gen(function* () {
+                const a = yield* Optional.of(1).bind();
+                const b = yield* Optional.empty<number>().bind();
+                reached();
+                return a + b;
+            });
+            expect(result.isEmpty()).toBe(true);
+            expect(reached).not.toHaveBeenCalled();
+        });
+
+        it('should run finally blocks when short-circuiting', () => {
+            const cleanup = jest.fn();
+            Optional.gen(function* () {
+                try {
+                    return yield* Optional.empty<number>().bind();
+                } finally {
+                    cleanup();
+                }
+            });
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it('should iterate over Optionals normally inside the body', () => {
+            const result = Optional.gen(function* () {
+                const values = [...Optional.of(1), ...Optional.of(2)];
+                const extra = yield* Optional.of(3).bind();
+                return [...values, extra];
+            });
+            expect(result.get()).toEqual([1, 2, 3]);
+        });
+
+        it('should iterate over empty Optionals as no elements inside the body', () => {
+            const result = Optional.gen(function* () {
+                const spread = [...Optional.empty<number>()];
+                const array = Array.from(Optional.empty<number>());
+                const value = yield* Optional.of(1).bind();
+                return [...spread, ...array, value];
+            });
+            expect(result.get()).toEqual([1]);
+        });
+
+        it('should only accept Optionals in the body', () => {
+            const unwrapErr = () =>
+                // @ts-expect-error an Err is not an Optional
+                Optional.gen(function* () {
+                    return yield* new Err<string, number>('failed');
+                });
+            expect(unwrapErr).toBeInstanceOf(Function);
+        });
+    });
+
+    describe('Optional.genAsync()', () => {
+        it('should combine present Optionals across awaits', async () => {
+            const result = await Optional.genAsync(async function* () {
+                const a = yield* (await Promise.resolve(Optional.of(20))).bind();
+                const b = yield* Optional.of(22).bind();
+                return a + b;
+            });
+            expect(result.get()).toBe(42);
+        });
+
+        it('should short-circuit on the first empty Optional', async () => {
+            const result = await Optional.genAsync(async function* () {
+                const a = yield* Optional.of(1).bind();
+                const b = yield* (await Promise.resolve(Optional.empty<number>())).bind();
+                return a + b;
+            });
+            expect(result.isEmpty()).toBe(true);
+        });
+    });
+});
+
+describe('Optional Traverse Tests', () => {
+
+    describe('Optional.sequence()', () => {
+        it('should collect the values of an array of present Optionals', () => {
+            expect(Optional.sequence([Optional.of(1), Optional.of(2), Optional.of(3)]).get()).toEqual([1, 2, 3]);
+        });
+
+        it('should be empty if any Optional is empty', () => {
+            expect(Optional.sequence([Optional.of(1), Optional.empty<number>()]).isEmpty()).toBe(true);
+        });
+
+        it('should collect a record of Optionals preserving the keys', () => {
+            const record = Optional.sequence({name: Optional.of('Manuel'), age: Optional.of(30)});
+            expect(record.get()).toEqual({name: 'Manuel', age: 30});
+        });
+
+        it('should be present for an empty array or record', () => {
+            expect(Optional.sequence([]).get()).toEqual([]);
+            expect(Optional.sequence({}).get()).toEqual({});
+        });
+    });
+
+    describe('Optional.traverse()', () => {
+        it('should map an array and collect the values', () => {
+            const result = Optional.traverse(['1', '2', '3'], value => Optional.of(parseInt(value)));
+            expect(result.get()).toEqual([1, 2, 3]);
+        });
+
+        it('should stop mapping at the first empty result', () => {
+            const mapper = jest.fn((value: number) => value > 1 ? Optional.empty<number>() : Optional.of(value));
+            const result = Optional.traverse([1, 2, 3], mapper);
+            expect(result.isEmpty()).toBe(true);
+            expect(mapper).toHaveBeenCalledTimes(2);
+        });
+
+        it('should map a record preserving the keys', () => {
+            const result = Optional.traverse({http: '80', https: '443'}, (port, key) => Optional.of(`${key}:${port}`));
+            expect(result.get()).toEqual({http: 'http:80', https: 'https:443'});
+        });
+
+        it('should be present for an empty array or record', () => {
+            expect(Optional.traverse([], value => Optional.of(value)).get()).toEqual([]);
+            expect(Optional.traverse({}, value => Optional.of(value)).get()).toEqual({});
+        });
+    });
+
+    describe('Optional.sequenceAsync()', () => {
+        it('should wait for Optionals, promises and AsyncOptionals', async () => {
+            const result = await Optional.sequenceAsync([
+                Optional.of(1),
+                Promise.resolve(Optional.of(2)),
+                Optional.ofAsync(Promise.resolve(3))
+            ]);
+            expect(result.get()).toEqual([1, 2, 3]);
+        });
+
+        it('should collect a record preserving the keys', async () => {
+            const result = await Optional.sequenceAsync({
+                name: Optional.ofAsync(Promise.resolve('Manuel')),
+                age: Optional.of(30)
+            });
+            expect(result.get()).toEqual({name: 'Manuel', age: 30});
+        });
+
+        it('should be present for an empty array or record', async () => {
+            expect((await Optional.sequenceAsync([])).get()).toEqual([]);
+            expect((await Optional.sequenceAsync({})).get()).toEqual({});
+        });
+    });
+
+    describe('Optional.traverseAsync()', () => {
+        it('should map with async functions and keep the order of the items', async () => {
+            const result = await Optional.traverseAsync([30, 10, 20], async value => {
+                await new Promise(resolve => setTimeout(resolve, value));
+                return Optional.of(value * 2);
+            });
+            expect(result.get()).toEqual([60, 20, 40]);
+        });
+
+        it('should not run more mappers than the concurrency limit', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            const result = await Optional.traverseAsync([1, 2, 3, 4, 5], async value => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                running--;
+                return Optional.of(value);
+            }, 2);
+            expect(result.get()).toEqual([1, 2, 3, 4, 5]);
+            expect(maxRunning).toBe(2);
+        });
+
+        it('should not start further mappers after an empty result', async () => {
+            const mapper = jest.fn(async (value: number) => value === 2 ? Optional.empty<number>() : Optional.of(value));
+            const result = await Optional.traverseAsync([1, 2, 3, 4], mapper, 1);
+            expect(result.isEmpty()).toBe(true);
+            expect(mapper).toHaveBeenCalledTimes(2);
+        });
+
+        it('should map a record preserving the keys', async () => {
+            const result = await Optional.traverseAsync({a: 1, b: 2}, async value => Optional.of(value + 1), 1);
+            expect(result.get()).toEqual({a: 2, b: 3});
+        });
+
+        it('should be present for an empty array or record', async () => {
+            expect((await Optional.traverseAsync([], async value => Optional.of(value))).get()).toEqual([]);
+            expect((await Optional.traverseAsync({}, async value => Optional.of(value))).get()).toEqual({});
+        });
+
+        it('should reject an invalid concurrency', () => {
+            expect(() => Optional.traverseAsync([1], value => Optional.of(value), 0)).toThrow('Concurrency must be a positive integer');
+        });
+    });
+});
+
+describe('Optional Tracing Tests', () => {
+
+    describe('Optional.traced()', () => {
+        it('should record the operation and step that emptied the Optional', () => {
+            const optional = Optional.of({name: 'Manuel', age: 17}).traced('adult')
+                .map(user => user.age)
+                .filter(age => age >= 18)
+                .map(age => age + 1);
+            expect(optional.trace()).toEqual({label: 'adult', step: 3, emptiedAt: 2, operation: 'filter'});
+        });
+
+        it('should include the trace in the error thrown by get()', () => {
+            const optional = Optional.of({address: undefined as string | undefined}).traced('loadUser')
+                .map(user => user.address);
+            expect(() => optional.get()).toThrow(NoSuchElementError);
+            expect(() => optional.get()).toThrow("Value is not present (emptied by 'map' at step 1 of 'loadUser')");
+        });
+
+        it('should clear the emptied step when a later operation recovers a value', () => {
+            const optional = Optional.empty<number>().traced('recover').run(value => value, () => 42);
+            expect(optional.trace()).toEqual({label: 'recover', step: 1});
+            expect(optional.get()).toBe(42);
+        });
+
+        it('should not alter the original Optional', () => {
+            const optional = Optional.of(5);
+            const traced = optional.traced('five');
+            expect(optional.trace()).toBeUndefined();
+            expect(traced.trace()).toEqual({label: 'five', step: 0});
+        });
+    });
+
+    describe('Optional.enableTracing()', () => {
+        afterEach(() => Optional.disableTracing());
+
+        it('should not trace Optionals by default', () => {
+            const optional = Optional.of(5).filter(value => value > 10);
+            expect(optional.trace()).toBeUndefined();
+            expect(() => optional.get()).toThrow(/^Value is not present$/);
+        });
+
+        it('should trace every Optional once enabled', () => {
+            Optional.enableTracing();
+            const optional = Optional.of({id: 1}).at('id').filter(id => id > 1).map(id => id * 2);
+            expect(optional.trace()).toEqual({step: 3, emptiedAt: 2, operation: 'filter'});
+            expect(() => optional.get()).toThrow("Value is not present (emptied by 'filter' at step 2)");
+        });
+
+        it('should record Optionals that are created empty', () => {
+            Optional.enableTracing();
+            expect(Optional.of(null).trace()).toEqual({step: 0, emptiedAt: 0, operation: 'of'});
+        });
+    });
+});
+
 describe('Global Functions Tests', () => {
 
     it('should create an Optional using global optionalOf', () => {
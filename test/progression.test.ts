@@ -0,0 +1,79 @@
+import {IntProgression, NoSuchElementError} from "../src";
+import "../src";
+
+describe('IntProgression', () => {
+    describe('fromClosedRange', () => {
+        test('creates an ascending progression', () => {
+            expect(IntProgression.fromClosedRange(1, 5).toArray()).toEqual([1, 2, 3, 4, 5]);
+            expect(IntProgression.fromClosedRange(1, 10, 4).toArray()).toEqual([1, 5, 9]);
+        });
+
+        test('creates a descending progression', () => {
+            expect(IntProgression.fromClosedRange(5, 1, -1).toArray()).toEqual([5, 4, 3, 2, 1]);
+            expect(IntProgression.fromClosedRange(10, 1, -4).toArray()).toEqual([10, 6, 2]);
+        });
+
+        test('creates an empty progression when the step goes away from the end', () => {
+            expect(IntProgression.fromClosedRange(5, 1).isEmpty()).toBe(true);
+            expect(IntProgression.fromClosedRange(1, 5, -1).isEmpty()).toBe(true);
+            expect([...IntProgression.fromClosedRange(5, 1)]).toEqual([]);
+        });
+
+        test('rejects a zero step and non integer arguments', () => {
+            expect(() => IntProgression.fromClosedRange(1, 5, 0)).toThrow('Step must be non-zero');
+            expect(() => IntProgression.fromClosedRange(1.5, 5)).toThrow('Start must be an integer, got 1.5');
+            expect(() => IntProgression.fromClosedRange(1, Infinity)).toThrow('End must be an integer, got Infinity');
+        });
+    });
+
+    describe('queries', () => {
+        const huge = IntProgression.fromClosedRange(0, 1e9, 3);
+
+        test('computes size, first and last without iterating', () => {
+            expect(huge.size()).toBe(333333334);
+            expect(huge.first()).toBe(0);
+            expect(huge.last()).toBe(999999999);
+            expect(IntProgression.fromClosedRange(5, 1).size()).toBe(0);
+        });
+
+        test('throws when accessing first or last of an empty progression', () => {
+            const empty = IntProgression.fromClosedRange(5, 1);
+            expect(() => empty.first()).toThrow(NoSuchElementError);
+            expect(() => empty.last()).toThrow(NoSuchElementError);
+        });
+
+        test('checks membership without iterating', () => {
+            expect(huge.contains(300000000)).toBe(true);
+            expect(huge.contains(300000001)).toBe(false);
+            expect(huge.contains(1e9)).toBe(false);
+            expect(huge.contains(1.5)).toBe(false);
+            expect(IntProgression.fromClosedRange(10, 1, -3).contains(4)).toBe(true);
+            expect(IntProgression.fromClosedRange(10, 1, -3).contains(5)).toBe(false);
+        });
+
+        test('accesses elements by index', () => {
+            expect(huge.at(2)).toBe(6);
+            expect(huge.at(-1)).toBe(999999999);
+            expect(huge.at(333333334)).toBeUndefined();
+            expect(IntProgression.fromClosedRange(10, 1, -3).at(1)).toBe(7);
+        });
+    });
+
+    describe('transformations', () => {
+        test('reverses the progression', () => {
+            expect(IntProgression.fromClosedRange(1, 10, 3).reversed().toArray()).toEqual([10, 7, 4, 1]);
+            expect(IntProgression.fromClosedRange(5, 1).reversed().isEmpty()).toBe(true);
+        });
+
+        test('changes the step keeping the direction', () => {
+            expect(IntProgression.fromClosedRange(1, 10).step(3).toArray()).toEqual([1, 4, 7, 10]);
+            expect(IntProgression.fromClosedRange(10, 0, -1).step(5).toArray()).toEqual([10, 5, 0]);
+            expect(() => IntProgression.fromClosedRange(1, 10).step(-1)).toThrow('Step must be a positive integer, got -1');
+        });
+
+        test('iterates lazily', () => {
+            const iterator = IntProgression.fromClosedRange(0, Number.MAX_SAFE_INTEGER)[Symbol.iterator]();
+            expect([iterator.next().value, iterator.next().value, iterator.next().value]).toEqual([0, 1, 2]);
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import {Range} from "../src";
+import {Comparator, Duration, IntProgression, NoSuchElementError, Range} from "../src";
 import "../src";
 
 describe('Range', () => {
@@ -14,6 +14,32 @@ describe('Range', () => {
         });
     });
 
+    describe('range edge cases', () => {
+        test('generates a descending range with a negative step', () => {
+            expect(Range.range(5, 1, -2)).toEqual([5, 3, 1]);
+            expect(Range.rangeTo(5, 1, -1)).toEqual([5, 4, 3, 2, 1]);
+        });
+
+        test('generates an empty range when the step goes away from the end', () => {
+            expect(Range.range(5, 1)).toEqual([]);
+            expect(Range.rangeTo(1, 5, -1)).toEqual([]);
+        });
+
+        test('generates fractional ranges without drift', () => {
+            expect(Range.range(0, 0.3, 0.1)).toEqual([0, 0.1, 0.2, 0.3]);
+            expect(Range.range(1, 0, -0.25)).toEqual([1, 0.75, 0.5, 0.25, 0]);
+            expect(Range.rangeTo(0, 1, 0.1).at(-1)).toBe(1);
+            expect(Range.rangeUntil(0, 1, 0.25)).toEqual([0, 0.25, 0.5, 0.75]);
+        });
+
+        test('rejects invalid arguments with clear errors', () => {
+            expect(() => Range.range(1, 5, 0)).toThrow('Step must be non-zero');
+            expect(() => Range.range(NaN, 5)).toThrow('Start must be a finite number, got NaN');
+            expect(() => Range.rangeTo(1, Infinity)).toThrow('End must be a finite number, got Infinity');
+            expect(() => Range.rangeTo(0, 1e12)).toThrow('Range of 1000000000001 elements is too large to be created, use a progression instead');
+        });
+    });
+
     describe('rangeTo', () => {
         test('is an alias for range method', () => {
             const result1 = Range.rangeTo(1, 5);
@@ -29,6 +55,56 @@ describe('Range', () => {
         });
     });
 
+    describe('rangeUntil descending', () => {
+        test('excludes the end of a descending range', () => {
+            expect(Range.rangeUntil(5, 1, -1)).toEqual([5, 4, 3, 2]);
+            expect(Range.rangeUntil(1, 1)).toEqual([]);
+        });
+    });
+
+    describe('downTo', () => {
+        test('generates a descending range', () => {
+            expect(Range.downTo(5, 1)).toEqual([5, 4, 3, 2, 1]);
+            expect(Range.downTo(5, 1, 2)).toEqual([5, 3, 1]);
+            expect(Range.downTo(1, 0, 0.2)).toEqual([1, 0.8, 0.6, 0.4, 0.2, 0]);
+            expect(Range.downTo(1, 5)).toEqual([]);
+        });
+
+        test('rejects a step that is not positive', () => {
+            expect(() => Range.downTo(5, 1, -1)).toThrow('Step must be positive, got -1');
+        });
+    });
+
+    describe('linspace', () => {
+        test('generates evenly spaced numbers including both bounds', () => {
+            expect(Range.linspace(0, 1, 5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+            expect(Range.linspace(10, 0, 3)).toEqual([10, 5, 0]);
+            expect(Range.linspace(0, 1, 11)[3]).toBe(0.3);
+            expect(Range.linspace(2, 7, 1)).toEqual([2]);
+            expect(Range.linspace(2, 7, 0)).toEqual([]);
+        });
+
+        test('rejects an invalid count', () => {
+            expect(() => Range.linspace(0, 1, -1)).toThrow('Count must be a non-negative integer, got -1');
+            expect(() => Range.linspace(0, 1, 2.5)).toThrow('Count must be a non-negative integer, got 2.5');
+        });
+    });
+
+    describe('progressionTo', () => {
+        test('creates a lazy progression with the end included', () => {
+            const result = Range.progressionTo(1, 5, 2);
+            expect(result).toBeInstanceOf(IntProgression);
+            expect([...result]).toEqual([1, 3, 5]);
+        });
+    });
+
+    describe('progressionUntil', () => {
+        test('creates a lazy progression with the end excluded', () => {
+            expect(Range.progressionUntil(1, 5, 2).toArray()).toEqual([1, 3]);
+            expect(Range.progressionUntil(5, 1, -1).toArray()).toEqual([5, 4, 3, 2]);
+        });
+    });
+
     describe('inRange', () => {
         test('checks if a value is within the specified range', () => {
             const result1 = Range.inRange(3, 1, 5);
@@ -59,6 +135,24 @@ describe('Global Functions', () => {
         });
     });
 
+    describe('downTo', () => {
+        test('generates a descending range', () => {
+            expect(downTo(3, 1)).toEqual([3, 2, 1]);
+        });
+    });
+
+    describe('progressionTo', () => {
+        test('creates a lazy progression with the end included', () => {
+            expect(progressionTo(1, 5).toArray()).toEqual([1, 2, 3, 4, 5]);
+        });
+    });
+
+    describe('progressionUntil', () => {
+        test('creates a lazy progression with the end excluded', () => {
+            expect(progressionUntil(1, 5).toArray()).toEqual([1, 2, 3, 4]);
+        });
+    });
+
     describe('inRange', () => {
         test('checks if a value is within the specified range', () => {
             const result1 = inRange(3, 1, 5);
@@ -67,4 +161,124 @@ describe('Global Functions', () => {
             expect(result2).toBe(false);
         });
     });
-});
\ No newline at end of file
+});
+describe('Generic Range', () => {
+    describe('bounds', () => {
+        test('contains values according to the bound types', () => {
+            expect([0, 1, 3, 5, 6].map(value => Range.closed(1, 5).contains(value))).toEqual([false, true, true, true, false]);
+            expect([1, 3, 5].map(value => Range.open(1, 5).contains(value))).toEqual([false, true, false]);
+            expect([1, 5].map(value => Range.closedOpen(1, 5).contains(value))).toEqual([true, false]);
+            expect([1, 5].map(value => Range.openClosed(1, 5).contains(value))).toEqual([false, true]);
+        });
+
+        test('supports unbounded ends', () => {
+            expect(Range.atLeast(10).contains(1e9)).toBe(true);
+            expect(Range.greaterThan(10).contains(10)).toBe(false);
+            expect(Range.atMost(10).contains(-1e9)).toBe(true);
+            expect(Range.lessThan(10).contains(10)).toBe(false);
+            expect(Range.all<number>().contains(0)).toBe(true);
+        });
+
+        test('exposes the endpoints and bound types', () => {
+            const range = Range.openClosed(1, 5);
+            expect([range.lowerEndpoint(), range.lowerBoundType()]).toEqual([1, 'open']);
+            expect([range.upperEndpoint(), range.upperBoundType()]).toEqual([5, 'closed']);
+            expect(Range.atLeast(1).hasUpperBound()).toBe(false);
+            expect(() => Range.atLeast(1).upperEndpoint()).toThrow(NoSuchElementError);
+        });
+
+        test('rejects a lower bound greater than the upper bound', () => {
+            expect(() => Range.closed(5, 1)).toThrow('Invalid range [5..1]: the lower bound is greater than the upper bound');
+            expect(() => Range.open(1, 1)).toThrow('Invalid range (1..1)');
+        });
+
+        test('formats the range using the interval notation', () => {
+            expect(Range.closedOpen(1, 5).toString()).toBe('[1..5)');
+            expect(Range.atMost(0).toString()).toBe('(-∞..0]');
+            expect(Range.greaterThan(0).toString()).toBe('(0..+∞)');
+        });
+    });
+
+    describe('value types', () => {
+        test('ranges over strings', () => {
+            const range = Range.closedOpen('b', 'd');
+            expect(['a', 'b', 'cat', 'd'].map(value => range.contains(value))).toEqual([false, true, true, false]);
+        });
+
+        test('ranges over Dates', () => {
+            const q1 = Range.closedOpen(new Date('2024-01-01'), new Date('2024-04-01'));
+            expect(q1.contains(new Date('2024-03-31'))).toBe(true);
+            expect(q1.contains(new Date('2024-04-01'))).toBe(false);
+        });
+
+        test('ranges over Durations', () => {
+            const range = Range.openClosed(Duration.minutes(5), Duration.hours(1));
+            expect(range.contains(Duration.minutes(30))).toBe(true);
+            expect(range.contains(Duration.minutes(5))).toBe(false);
+        });
+
+        test('ranges over BigInts', () => {
+            const range = Range.closed(10n ** 20n, 10n ** 21n);
+            expect(range.contains(5n * 10n ** 20n)).toBe(true);
+            expect(range.contains(10n)).toBe(false);
+        });
+
+        test('ranges over values ordered by a comparator', () => {
+            const byLength: Comparator<string> = {compare: (a, b) => a.length - b.length};
+            const range = Range.closed('ab', 'abcd', byLength);
+            expect(range.contains('xyz')).toBe(true);
+            expect(range.contains('x')).toBe(false);
+            expect(Range.atLeast({priority: 2}, {compare: (a, b) => a.priority - b.priority}).contains({priority: 3})).toBe(true);
+        });
+
+        test('compares values with the order of the range', () => {
+            const byLength: Comparator<string> = {compare: (a, b) => a.length - b.length};
+            expect(Range.closed('ab', 'abcd', byLength).compareValues('z', 'ab')).toBeLessThan(0);
+            expect(Range.closed(1, 5).compareValues(3, 3)).toBe(0);
+            expect(Range.closed(new Date(0), new Date(10)).compareValues(new Date(10), new Date(0))).toBeGreaterThan(0);
+        });
+    });
+
+    describe('operations', () => {
+        test('checks if a range is empty', () => {
+            expect(Range.closedOpen(3, 3).isEmpty()).toBe(true);
+            expect(Range.openClosed(3, 3).isEmpty()).toBe(true);
+            expect(Range.singleton(3).isEmpty()).toBe(false);
+            expect(Range.closedOpen(3, 3).contains(3)).toBe(false);
+        });
+
+        test('checks if a range encloses another', () => {
+            expect(Range.closed(1, 10).encloses(Range.open(3, 5))).toBe(true);
+            expect(Range.closed(1, 10).encloses(Range.closed(1, 10))).toBe(true);
+            expect(Range.open(1, 10).encloses(Range.closed(1, 5))).toBe(false);
+            expect(Range.atLeast(1).encloses(Range.greaterThan(1))).toBe(true);
+            expect(Range.closed(1, 10).encloses(Range.atLeast(5))).toBe(false);
+        });
+
+        test('checks if ranges are connected', () => {
+            expect(Range.closed(1, 5).isConnected(Range.open(3, 8))).toBe(true);
+            expect(Range.closedOpen(1, 3).isConnected(Range.closed(3, 5))).toBe(true);
+            expect(Range.open(1, 3).isConnected(Range.open(3, 5))).toBe(false);
+            expect(Range.lessThan(0).isConnected(Range.atLeast(0))).toBe(true);
+        });
+
+        test('intersects connected ranges', () => {
+            expect(Range.closed(1, 5).intersect(Range.open(3, 8)).toString()).toBe('(3..5]');
+            expect(Range.closedOpen(1, 3).intersect(Range.closed(3, 5)).isEmpty()).toBe(true);
+            expect(Range.all<number>().intersect(Range.atMost(2)).toString()).toBe('(-∞..2]');
+            expect(() => Range.closed(1, 2).intersect(Range.closed(3, 4))).toThrow('Ranges [1..2] and [3..4] are not connected');
+        });
+
+        test('returns the gap between ranges', () => {
+            expect(Range.closed(1, 3).gap(Range.open(5, 8)).toString()).toBe('(3..5]');
+            expect(Range.open(5, 8).gap(Range.closed(1, 3)).toString()).toBe('(3..5]');
+            expect(Range.closedOpen(1, 3).gap(Range.closed(3, 5)).isEmpty()).toBe(true);
+            expect(() => Range.closed(1, 5).gap(Range.closed(3, 8))).toThrow('Ranges [1..5] and [3..8] overlap');
+        });
+
+        test('spans ranges', () => {
+            expect(Range.closed(1, 3).span(Range.open(5, 8)).toString()).toBe('[1..8)');
+            expect(Range.atMost(3).span(Range.closed(1, 2)).toString()).toBe('(-∞..3]');
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import {NoSuchElementError, Range, RangeMap, RangeSet} from "../src";
+import "../src";
+
+describe('RangeSet', () => {
+    const busy = RangeSet.of(Range.closedOpen(14, 15), Range.closedOpen(9, 11), Range.closedOpen(10, 12));
+
+    describe('normalization', () => {
+        test('merges overlapping ranges and sorts them', () => {
+            expect(busy.toString()).toBe('{[9..12), [14..15)}');
+            expect([...busy].map(range => range.toString())).toEqual(['[9..12)', '[14..15)']);
+        });
+
+        test('merges adjacent ranges', () => {
+            expect(RangeSet.of(Range.closed(1, 3), Range.openClosed(3, 5)).toString()).toBe('{[1..5]}');
+            expect(RangeSet.of(Range.closedOpen(1, 3), Range.closedOpen(3, 5)).toString()).toBe('{[1..5)}');
+            expect(RangeSet.of(Range.open(1, 3), Range.open(3, 5)).asRanges().length).toBe(2);
+        });
+
+        test('merges a range bridging several ranges', () => {
+            const set = RangeSet.of(Range.closed(1, 2), Range.closed(4, 5), Range.closed(7, 8), Range.closed(10, 11));
+            expect(set.add(Range.closed(2, 7)).toString()).toBe('{[1..8], [10..11]}');
+            expect(set.add(Range.atMost(0)).toString()).toBe('{(-∞..0], [1..2], [4..5], [7..8], [10..11]}');
+        });
+
+        test('ignores empty ranges', () => {
+            expect(RangeSet.of(Range.closedOpen(1, 1)).isEmpty()).toBe(true);
+            expect(RangeSet.empty().isEmpty()).toBe(true);
+        });
+    });
+
+    describe('queries', () => {
+        test('checks if a value is in one of the ranges', () => {
+            expect([8, 9, 11.5, 12, 13, 14, 15].map(value => busy.contains(value)))
+                .toEqual([false, true, true, false, false, true, false]);
+            expect(RangeSet.empty().contains(1)).toBe(false);
+        });
+
+        test('checks if a range is enclosed', () => {
+            expect(busy.encloses(Range.closed(9, 11))).toBe(true);
+            expect(busy.encloses(Range.closed(11, 14))).toBe(false);
+        });
+
+        test('returns the span of the ranges', () => {
+            expect(busy.span().toString()).toBe('[9..15)');
+            expect(() => RangeSet.empty().span()).toThrow(NoSuchElementError);
+        });
+
+        test('returns the gaps between the ranges', () => {
+            const set = RangeSet.of(Range.closed(1, 3), Range.closed(5, 8), Range.atLeast(10));
+            expect(set.gaps().map(gap => gap.toString())).toEqual(['(3..5)', '(8..10)']);
+            expect(RangeSet.of(Range.closed(1, 3)).gaps()).toEqual([]);
+        });
+    });
+
+    describe('operations', () => {
+        test('removes a range, trimming or splitting the ranges it overlaps', () => {
+            const set = RangeSet.of(Range.closed(1, 10), Range.closed(20, 30));
+            expect(set.remove(Range.open(3, 5)).toString()).toBe('{[1..3], [5..10], [20..30]}');
+            expect(set.remove(Range.closed(5, 25)).toString()).toBe('{[1..5), (25..30]}');
+            expect(set.remove(Range.atLeast(1)).isEmpty()).toBe(true);
+            expect(set.remove(Range.closedOpen(10, 20)).toString()).toBe('{[1..10), [20..30]}');
+        });
+
+        test('unites two sets', () => {
+            const other = RangeSet.of(Range.closedOpen(12, 14), Range.closed(16, 17));
+            expect(busy.union(other).toString()).toBe('{[9..15), [16..17]}');
+        });
+
+        test('intersects two sets', () => {
+            const other = RangeSet.of(Range.closed(10, 14), Range.atLeast(14.5));
+            expect(busy.intersection(other).toString()).toBe('{[10..12), [14..14], [14.5..15)}');
+        });
+
+        test('returns the complement within bounds', () => {
+            expect(busy.complement(Range.closedOpen(8, 18)).toString()).toBe('{[8..9), [12..14), [15..18)}');
+            expect(busy.complement(Range.closedOpen(10, 14)).toString()).toBe('{[12..14)}');
+            expect(busy.complement(Range.all()).toString()).toBe('{(-∞..9), [12..14), [15..+∞)}');
+            expect(RangeSet.empty().complement(Range.closed(1, 2)).toString()).toBe('{[1..2]}');
+        });
+
+        test('leaves the original set unchanged', () => {
+            busy.add(Range.closed(0, 100));
+            busy.remove(Range.closed(0, 100));
+            expect(busy.toString()).toBe('{[9..12), [14..15)}');
+        });
+
+        test('works with other comparable values', () => {
+            const letters = RangeSet.of(Range.closed('a', 'c'), Range.closed('x', 'z'), Range.closed('b', 'f'));
+            expect(letters.toString()).toBe('{[a..f], [x..z]}');
+            expect(letters.contains('e')).toBe(true);
+            expect(letters.contains('m')).toBe(false);
+        });
+    });
+});
+
+describe('RangeMap', () => {
+    const shipping = RangeMap.empty<string>()
+        .put(Range.closedOpen(0, 1), 'letter')
+        .put(Range.closedOpen(1, 20), 'parcel')
+        .put(Range.atLeast(20), 'freight');
+
+    test('returns the value of the range containing a key', () => {
+        expect(shipping.get(0.5)).toBe('letter');
+        expect(shipping.get(1)).toBe('parcel');
+        expect(shipping.get(250)).toBe('freight');
+        expect(shipping.get(-1)).toBeUndefined();
+    });
+
+    test('overwrites the keys covered by a new range', () => {
+        const map = RangeMap.of([Range.closed(1, 10), 'a']).put(Range.open(3, 5), 'b');
+        expect(map.toString()).toBe('{[1..3]=a, (3..5)=b, [5..10]=a}');
+        expect(map.put(Range.closed(0, 20), 'c').toString()).toBe('{[0..20]=c}');
+    });
+
+    test('merges adjacent ranges with equal values', () => {
+        const map = RangeMap.of([Range.closedOpen(1, 3), {zone: 1}], [Range.closedOpen(5, 8), {zone: 1}])
+            .put(Range.closedOpen(3, 5), {zone: 1});
+        expect(map.entries().length).toBe(1);
+        expect(map.span().toString()).toBe('[1..8)');
+        expect(RangeMap.of([Range.closedOpen(3, 5), 'a'], [Range.closed(3, 3), 'b']).toString()).toBe('{[3..3]=b, (3..5)=a}');
+    });
+
+    test('removes the keys of a range', () => {
+        const map = shipping.remove(Range.closedOpen(10, 30));
+        expect(map.toString()).toBe('{[0..1)=letter, [1..10)=parcel, [30..+∞)=freight}');
+        expect(map.get(15)).toBeUndefined();
+        expect(shipping.get(15)).toBe('parcel');
+    });
+
+    test('returns the keys and iterates the entries', () => {
+        expect(shipping.keys().toString()).toBe('{[0..+∞)}');
+        expect([...shipping].map(([range, value]) => `${range}=${value}`)).toEqual(['[0..1)=letter', '[1..20)=parcel', '[20..+∞)=freight']);
+        expect(RangeMap.empty().isEmpty()).toBe(true);
+        expect(() => RangeMap.empty().span()).toThrow(NoSuchElementError);
+    });
+});
@@ -1,4 +1,4 @@
-import {Ok, Err} from "../src";
+import {Either, Err, Left, Ok, Optional, Result, Right, Tagged, TaggedError} from "../src";
 import "../src";
 
 describe('Result class and utility functions', () => {
@@ -29,16 +29,16 @@ describe('Result class and utility functions', () => {
             expect(mappedResult.get()).toBe(10);
         });
 
-        it('should map the error value using map method', () => {
+        it('should map the error value using mapErr method', () => {
             const errInstance = Err.error('original error');
-            const mappedResult = errInstance.map(error => `Mapped: ${error}`);
+            const mappedResult = errInstance.mapErr(error => `Mapped: ${error}`);
             expect(mappedResult instanceof Err).toBe(true);
             expect(() => mappedResult.get()).toThrow('Mapped: original error');
         });
 
-        it('should map the error value to a new Result using flatMap method', () => {
+        it('should map the error value to a new Result using orElse method', () => {
             const errInstance = Err.error('original error');
-            const mappedResult = errInstance.flatMap(error => Err.error(`Mapped: ${error}`));
+            const mappedResult = errInstance.orElse(error => Err.error(`Mapped: ${error}`));
             expect(mappedResult instanceof Err).toBe(true);
             expect(() => mappedResult.get()).toThrow('Mapped: original error');
         });
@@ -62,16 +62,16 @@ describe('Result class and utility functions', () => {
             expect(extraction.error).toBeUndefined();
         });
 
-        it('should map the error value using map method on Err instance', () => {
+        it('should map the error value using mapErr method on Err instance', () => {
             const errInstance = Err.error('original error');
-            const mappedResult = errInstance.map(error => `Mapped: ${error}`);
+            const mappedResult = errInstance.mapErr(error => `Mapped: ${error}`);
             expect(mappedResult instanceof Err).toBe(true);
             expect(() => mappedResult.get()).toThrow('Mapped: original error');
         });
 
-        it('should map the error value to a new Result using flatMap method on Err instance', () => {
+        it('should map the error value to a new Result using orElse method on Err instance', () => {
             const errInstance = Err.error('original error');
-            const mappedResult = errInstance.flatMap(error => Err.error(`Mapped: ${error}`));
+            const mappedResult = errInstance.orElse(error => Err.error(`Mapped: ${error}`));
             expect(mappedResult instanceof Err).toBe(true);
             expect(() => mappedResult.get()).toThrow('Mapped: original error');
         });
@@ -81,11 +81,10 @@ describe('Result class and utility functions', () => {
             expect(() => errInstance.throw()).toThrow('original error');
         });
 
-        it('should convert an Err result to Optional', () => {
+        it('should convert an Err result to an empty Optional', () => {
             const errInstance = Err.error('original error');
             const optional = errInstance.toOptional();
-            expect(optional.isPresent()).toBe(true);
-            expect(optional.get()).toBe('original error');
+            expect(optional.isEmpty()).toBe(true);
         });
 
         it('should throw the original error when calling get method on Err instance', () => {
@@ -101,6 +100,395 @@ describe('Result class and utility functions', () => {
         });
     });
 
+    describe('Uniform API', () => {
+        const parse = (input: string): Result<number, string> => {
+            const value = Number(input);
+            return isNaN(value) ? error(`Invalid number: ${input}`) : ok(value);
+        };
+
+        it('should narrow a Result using isOk and isErr', () => {
+            const result = parse('42');
+            expect(result.isOk()).toBe(true);
+            expect(result.isErr()).toBe(false);
+            if (result.isOk()) {
+                expect(result.value).toBe(42);
+            }
+            const failure = parse('x');
+            expect(failure.isErr()).toBe(true);
+            if (failure.isErr()) {
+                expect(failure.error).toBe('Invalid number: x');
+            }
+        });
+
+        it('should chain a Result without narrowing', () => {
+            const double = (input: string) => parse(input)
+                .map(value => value * 2)
+                .andThen(value => value > 100 ? error('Too large') : ok(value))
+                .mapErr(message => `Failed: ${message}`)
+                .unwrapOr(0);
+            expect(double('21')).toBe(42);
+            expect(double('x')).toBe(0);
+            expect(double('60')).toBe(0);
+        });
+
+        it('should skip map and flatMap on an Err', () => {
+            const mapper = jest.fn((value: number) => value + 1);
+            const result = parse('x').map(mapper).flatMap(value => ok(value));
+            expect(result.isErr()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+
+        it('should skip mapErr and orElse on an Ok', () => {
+            const result = parse('1').mapErr(message => new Error(message)).orElse(() => ok(0));
+            expect(result.get()).toBe(1);
+        });
+
+        it('should recover from an Err', () => {
+            expect(parse('x').recover(message => message.length).get()).toBe(17);
+            expect(parse('x').orElse(() => parse('2')).get()).toBe(2);
+            expect(parse('x').unwrapOrElse(() => -1)).toBe(-1);
+        });
+
+        it('should match on both variants', () => {
+            const describe = (input: string) => parse(input).match({
+                ok: value => `number ${value}`,
+                err: message => message
+            });
+            expect(describe('7')).toBe('number 7');
+            expect(describe('x')).toBe('Invalid number: x');
+        });
+
+        it('should run side effects using tap and tapErr', () => {
+            const values: number[] = [];
+            const errors: string[] = [];
+            parse('1').tap(value => values.push(value)).tapErr(message => errors.push(message));
+            parse('x').tap(value => values.push(value)).tapErr(message => errors.push(message));
+            expect(values).toEqual([1]);
+            expect(errors).toEqual(['Invalid number: x']);
+        });
+    });
+
+    describe('Exception capture', () => {
+        it('should capture a returned value using Result.try', () => {
+            const result = Result.try(() => JSON.parse('{"a": 1}'));
+            expect(result.isOk()).toBe(true);
+            expect(result.get()).toEqual({a: 1});
+        });
+
+        it('should capture a thrown exception using Result.try', () => {
+            const result = Result.try(() => JSON.parse('{'));
+            expect(result.isErr()).toBe(true);
+            if (result.isErr()) {
+                expect(result.error).toBeInstanceOf(SyntaxError);
+            }
+        });
+
+        it('should map the thrown exception using Result.try', () => {
+            const result = Result.try(() => {
+                throw new Error('boom');
+            }, e => `Mapped: ${(e as Error).message}`);
+            expect(result.extract().error).toBe('Mapped: boom');
+        });
+
+        it('should normalize non-Error throwables', () => {
+            const fromString = Result.try(() => {
+                throw 'plain message';
+            });
+            const fromObject = Result.try(() => {
+                throw {code: 42};
+            });
+            expect(fromString.extract().error).toBeInstanceOf(Error);
+            expect(fromString.extract().error?.message).toBe('plain message');
+            expect(fromObject.extract().error?.cause).toEqual({code: 42});
+        });
+
+        it('should capture a resolved promise using Result.fromPromise', async () => {
+            const result = await Result.fromPromise(Promise.resolve(42));
+            expect(result.get()).toBe(42);
+        });
+
+        it('should capture a rejected promise using Result.fromPromise', async () => {
+            const result = await Result.fromPromise(Promise.reject('rejected'), reason => new Error(`Mapped: ${reason}`));
+            expect(result.isErr()).toBe(true);
+            expect(() => result.get()).toThrow('Mapped: rejected');
+        });
+
+        it('should capture Node-style callbacks using Result.fromCallback', async () => {
+            const read = (path: string, callback: (error: Error | null, content?: string) => void) =>
+                path === 'missing' ? callback(new Error('ENOENT')) : callback(null, `content of ${path}`);
+
+            const found = await Result.fromCallback<string>(callback => read('a.txt', callback));
+            const missing = await Result.fromCallback<string>(callback => read('missing', callback));
+            expect(found.get()).toBe('content of a.txt');
+            expect(() => missing.get()).toThrow('ENOENT');
+        });
+
+        it('should capture exceptions thrown by the function using Result.fromCallback', async () => {
+            const result = await Result.fromCallback(() => {
+                throw new Error('Synchronous failure');
+            });
+            expect(() => result.get()).toThrow('Synchronous failure');
+        });
+
+        it('should capture exceptions using the runCatching global', () => {
+            expect(runCatching(() => 42).get()).toBe(42);
+            expect(runCatching(() => {
+                throw new Error('boom');
+            }).isErr()).toBe(true);
+        });
+    });
+
+    describe('Combinators', () => {
+        const parse = (input: string): Result<number, string> => {
+            const value = Number(input);
+            return isNaN(value) ? error(`Invalid number: ${input}`) : ok(value);
+        };
+
+        it('should combine heterogeneous Results into a tuple using Result.all', () => {
+            const result = Result.all([parse('1'), ok('two'), ok(true)]);
+            expect(result.get()).toEqual([1, 'two', true]);
+        });
+
+        it('should return the first Err using Result.all', () => {
+            const result = Result.all([parse('1'), parse('x'), parse('y')]);
+            expect(result.extract().error).toBe('Invalid number: x');
+        });
+
+        it('should return the first Ok using Result.any', () => {
+            expect(Result.any([parse('x'), parse('2'), parse('3')]).get()).toBe(2);
+        });
+
+        it('should return all the errors using Result.any', () => {
+            const result = Result.any([parse('x'), parse('y')]);
+            expect(result.isErr()).toBe(true);
+            if (result.isErr()) {
+                expect(result.error).toBeInstanceOf(AggregateError);
+                expect(result.error.errors).toEqual(['Invalid number: x', 'Invalid number: y']);
+            }
+        });
+
+        it('should split values and errors using Result.partition', () => {
+            const {oks, errs} = Result.partition(['1', 'x', '3', 'y'].map(parse));
+            expect(oks).toEqual([1, 3]);
+            expect(errs).toEqual(['Invalid number: x', 'Invalid number: y']);
+        });
+
+        it('should combine a record of Results using Result.collect', () => {
+            const result = Result.collect({width: parse('800'), height: parse('600')});
+            expect(result.get()).toEqual({width: 800, height: 600});
+            expect(Result.collect({width: parse('800'), height: parse('auto')}).isErr()).toBe(true);
+        });
+    });
+
+    describe('Tagged errors', () => {
+        type NotFound = Tagged<'NotFound', { id: number }>;
+        type Forbidden = Tagged<'Forbidden', { role: string }>;
+
+        const findUser = (id: number, role: string): Result<string, NotFound | Forbidden> => {
+            if (role !== 'admin') {
+                return error(taggedError('Forbidden', {role}));
+            }
+            return id === 1 ? ok('Manuel') : error(taggedError('NotFound', {id}));
+        };
+
+        it('should create tagged errors using taggedError', () => {
+            const notFound = taggedError('NotFound', {id: 42});
+            expect(notFound).toBeInstanceOf(TaggedError);
+            expect(notFound).toBeInstanceOf(Error);
+            expect(notFound._tag).toBe('NotFound');
+            expect(notFound.id).toBe(42);
+            expect(notFound.message).toBe('NotFound');
+            expect(taggedError('Invalid', {message: 'Invalid input'}).message).toBe('Invalid input');
+        });
+
+        it('should handle every tag using matchError', () => {
+            const describe = (id: number, role: string) => findUser(id, role).matchError({
+                NotFound: error => `User ${error.id} not found`,
+                Forbidden: error => `Role ${error.role} is not allowed`
+            });
+            expect(describe(1, 'admin')).toBe('Manuel');
+            expect(describe(2, 'admin')).toBe('User 2 not found');
+            expect(describe(1, 'guest')).toBe('Role guest is not allowed');
+        });
+
+        it('should require a handler for every tag', () => {
+            // @ts-expect-error the Forbidden handler is missing
+            findUser(1, 'admin').matchError({NotFound: () => 'none'});
+        });
+
+        it('should recover from a single tag using catchTag', () => {
+            const recovered: Result<string, Forbidden> = findUser(2, 'admin').catchTag('NotFound', error => ok(`Guest ${error.id}`));
+            expect(recovered.get()).toBe('Guest 2');
+
+            const forbidden = findUser(2, 'guest').catchTag('NotFound', () => ok('Guest'));
+            expect(forbidden.isErr()).toBe(true);
+            if (forbidden.isErr()) {
+                expect(forbidden.error._tag).toBe('Forbidden');
+            }
+        });
+
+        it('should accept any type as error', () => {
+            const result: Result<number, { code: number }> = error({code: 404});
+            expect(result.mapErr(error => error.code).extract().error).toBe(404);
+            expect(() => result.get()).toThrow(Error);
+        });
+    });
+
+    describe('Error context', () => {
+        const connect = (): Result<string, Error> => error(new Error('connection refused'));
+
+        it('should wrap the error keeping the cause chain', () => {
+            const result = connect().context('loading user 42').context('rendering profile');
+            expect(result.isErr()).toBe(true);
+            if (result.isErr()) {
+                expect(result.error.message).toBe('rendering profile');
+                const cause = result.error.cause as Error;
+                expect(cause.message).toBe('loading user 42');
+                expect((cause.cause as Error).message).toBe('connection refused');
+            }
+        });
+
+        it('should not build the message of an Ok using withContext', () => {
+            const provider = jest.fn(() => 'loading');
+            expect(ok(1).withContext(provider).get()).toBe(1);
+            expect(provider).not.toHaveBeenCalled();
+            expect(() => connect().withContext(provider).get()).toThrow('loading');
+        });
+
+        it('should render the whole chain using report', () => {
+            const result = connect().context('loading user 42');
+            expect(result.isErr()).toBe(true);
+            if (result.isErr()) {
+                const report = result.report();
+                expect(report).toMatch(/^Error: loading user 42\n\s+at /);
+                expect(report).toContain('Caused by: Error: connection refused');
+            }
+        });
+
+        it('should render non-Error causes using report', () => {
+            const result = error({code: 500}).context('calling the API');
+            if (result.isErr()) {
+                expect(result.report()).toContain('Caused by: {"code":500}');
+            }
+        });
+
+        it('should render causes that cannot be serialized using report', () => {
+            const cyclic: { code: number, self?: unknown } = {code: 500};
+            cyclic.self = cyclic;
+            const results = [error(10n), error(cyclic).context('calling the API')];
+            const reports = results.map(result => result.isErr() ? result.report() : '');
+            expect(reports[0]).toBe('10');
+            expect(reports[1]).toContain('Caused by: [object Object]');
+        });
+
+        it('should serialize the chain using toJSON', () => {
+            const result = error(taggedError('NotFound', {id: 42})).context('loading user 42');
+            const json = JSON.parse(JSON.stringify(result));
+            expect(json.error.message).toBe('loading user 42');
+            expect(json.error.stack).toContain('loading user 42');
+            expect(json.error.cause).toMatchObject({_tag: 'NotFound', id: 42, message: 'NotFound'});
+            expect(JSON.parse(JSON.stringify(ok(1)))).toEqual({value: 1});
+        });
+    });
+
+    describe('Conversions', () => {
+        const results: Result<number, string>[] = [ok(1), error('failed')];
+
+        it('should convert a Result to an Either', () => {
+            expect(ok(1).toEither()).toEqual(new Right(1));
+            expect(error('failed').toEither()).toEqual(new Left('failed'));
+        });
+
+        it('should convert an Either to a Result using Result.fromEither', () => {
+            expect(Result.fromEither(right(1))).toEqual(new Ok(1));
+            expect(Result.fromEither(left('failed'))).toEqual(new Err('failed'));
+        });
+
+        it('should round-trip a Result through an Either', () => {
+            results.forEach(result => {
+                expect(result.toEither().toResult()).toEqual(result);
+                expect(Result.fromEither(result.toEither())).toEqual(result);
+            });
+        });
+
+        it('should round-trip an Either through a Result', () => {
+            const eithers: Either<string, number>[] = [right(1), left('failed')];
+            eithers.forEach(either => expect(Result.fromEither(either).toEither()).toEqual(either));
+        });
+
+        it('should round-trip an Optional through a Result', () => {
+            [Optional.of(1), Optional.empty<number>()].forEach(optional =>
+                expect(optional.toResult(() => 'missing').toOptional().equals(optional)).toBe(true));
+        });
+
+        it('should keep the value of an Ok through an Optional', () => {
+            expect(ok(1).toOptional().toResult(() => 'missing')).toEqual(ok(1));
+        });
+
+        it('should apply the emptiness policy when converting an Ok to an Optional', () => {
+            expect(ok('').toOptional().isEmpty()).toBe(true);
+            expect(ok([]).toOptional().isEmpty()).toBe(true);
+            expect(ok(null).toOptional().isEmpty()).toBe(true);
+        });
+    });
+
+    describe('Do-notation', () => {
+        const parse = (input: string): Result<number, string> => {
+            const value = Number(input);
+            return isNaN(value) ? error(`Invalid number: ${input}`) : ok(value);
+        };
+
+        it('should combine Ok results using Result.gen', () => {
+            const result = Result.gen(function* () {
+                const a = yield* parse('1');
+                const b = yield* parse('2');
+                return a + b;
+            });
+            expect(result instanceof Ok).toBe(true);
+            expect(result.get()).toBe(3);
+        });
+
+        it('should return the first Err using Result.gen', () => {
+            const result = Result.gen(function* () {
+                const a = yield* parse('x');
+                const b = yield* parse('y');
+                return a + b;
+            });
+            expect(result instanceof Err).toBe(true);
+            expect(() => result.get()).toThrow('Invalid number: x');
+        });
+
+        it('should combine Ok results using Result.genAsync', async () => {
+            const result = await Result.genAsync(async function* () {
+                const a = yield* parse('40');
+                const b = yield* await Promise.resolve(parse('2'));
+                return a + b;
+            });
+            expect(result.get()).toBe(42);
+        });
+
+        it('should return the first Err using Result.genAsync', async () => {
+            const result = await Result.genAsync(async function* () {
+                const a = yield* await Promise.resolve(parse('a'));
+                return a;
+            });
+            expect(result instanceof Err).toBe(true);
+        });
+
+        it('should unwrap results using bind, as with Optional.gen', () => {
+            const sum = Result.gen(function* () {
+                const a = yield* parse('1').bind();
+                const b = yield* parse('2').bind();
+                return a + b;
+            });
+            expect(sum.get()).toBe(3);
+            const failed = Result.gen(function* () {
+                return yield* parse('x').bind();
+            });
+            expect(() => failed.get()).toThrow('Invalid number: x');
+        });
+    });
+
     describe('Utility functions', () => {
         it('should create an Ok result using ok utility function', () => {
             const result = ok('success value');
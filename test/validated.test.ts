@@ -0,0 +1,116 @@
+import {Err, FieldError, Invalid, Left, Ok, Right, Valid, Validated} from "../src";
+import "../src";
+
+describe('Validated Tests', () => {
+    const validateName = (name: string): Validated<string, string> =>
+        name.trim() ? Validated.valid(name) : Validated.invalid('Name must not be blank');
+
+    const validateAge = (age: number): Validated<number, string> =>
+        age >= 0 && age < 150 ? Validated.valid(age) : Validated.invalid('Age is out of range');
+
+    describe('Valid and Invalid', () => {
+        it('should narrow using isValid and isInvalid', () => {
+            const valid = validateName('Manuel');
+            expect(valid.isValid()).toBe(true);
+            if (valid.isValid()) {
+                expect(valid.value).toBe('Manuel');
+            }
+            const invalid = validateName(' ');
+            expect(invalid.isInvalid()).toBe(true);
+            if (invalid.isInvalid()) {
+                expect(invalid.errors).toEqual(['Name must not be blank']);
+            }
+        });
+
+        it('should map the value and the errors', () => {
+            expect(validateName('manuel').map(name => name.toUpperCase()).getOrElse('')).toBe('MANUEL');
+            const invalid = validateName('').mapErrors(error => `name: ${error}`);
+            expect(invalid.match<string[]>({valid: () => [], invalid: errors => errors})).toEqual(['name: Name must not be blank']);
+        });
+
+        it('should chain dependent validations using andThen', () => {
+            const adult = (age: number) => validateAge(age).andThen(age => age >= 18 ? Validated.valid(age) : Validated.invalid('Must be an adult'));
+            expect(adult(30).getOrElse(0)).toBe(30);
+            expect(adult(10).isInvalid()).toBe(true);
+        });
+    });
+
+    describe('Validated.combine() and mapN()', () => {
+        it('should combine valid values into a tuple', () => {
+            const combined = Validated.combine([validateName('Manuel'), validateAge(30)]);
+            expect(combined.getOrElse(undefined)).toEqual(['Manuel', 30]);
+        });
+
+        it('should accumulate the errors of every invalid value', () => {
+            const combined = Validated.combine([validateName(''), validateAge(200), Validated.invalid('a', 'b')]);
+            expect(combined instanceof Invalid).toBe(true);
+            if (combined.isInvalid()) {
+                expect(combined.errors).toEqual(['Name must not be blank', 'Age is out of range', 'a', 'b']);
+            }
+        });
+
+        it('should combine the values with a function using mapN', () => {
+            const user = Validated.mapN([validateName('Manuel'), validateAge(30)], (name, age) => ({name, age}));
+            expect(user.getOrElse(undefined)).toEqual({name: 'Manuel', age: 30});
+
+            const invalid = Validated.mapN([validateName(''), validateAge(-1)], (name, age) => ({name, age}));
+            expect(invalid.match({valid: () => 0, invalid: errors => errors.length})).toBe(2);
+        });
+    });
+
+    describe('Conversions', () => {
+        it('should convert to a Result', () => {
+            expect(validateName('Manuel').toResult() instanceof Ok).toBe(true);
+
+            const result = validateName('').toResult();
+            expect(result instanceof Err).toBe(true);
+            expect(result.extract().error).toBeInstanceOf(AggregateError);
+            expect(validateName('').toResult(errors => errors.join(', ')).extract().error).toBe('Name must not be blank');
+        });
+
+        it('should convert to an Either', () => {
+            expect(validateName('Manuel').toEither()).toEqual(new Right('Manuel'));
+            expect(validateName('').toEither()).toEqual(new Left(['Name must not be blank']));
+        });
+
+        it('should convert from a Result', () => {
+            expect(Validated.fromResult(ok(1))).toEqual(new Valid(1));
+            expect(Validated.fromResult(error('failed'))).toEqual(new Invalid(['failed']));
+        });
+
+        it('should convert from an Either', () => {
+            expect(Validated.fromEither(right(1))).toEqual(new Valid(1));
+            expect(Validated.fromEither(left('failed'))).toEqual(new Invalid(['failed']));
+        });
+    });
+
+    describe('Field validators', () => {
+        const validateUser = Validated.fields({
+            name: validateName,
+            age: validateAge,
+            address: Validated.fields({
+                city: (city: string) => city ? Validated.valid(city) : Validated.invalid('City is required')
+            }),
+            tags: Validated.each((tag: string) => tag.length <= 5 ? Validated.valid(tag) : Validated.invalid('Tag is too long'))
+        });
+
+        it('should validate a valid record', () => {
+            const user = validateUser({name: 'Manuel', age: 30, address: {city: 'Praia'}, tags: ['a', 'b']});
+            expect(user.getOrElse(undefined)).toEqual({name: 'Manuel', age: 30, address: {city: 'Praia'}, tags: ['a', 'b']});
+        });
+
+        it('should report every error with the path of its field', () => {
+            const user = validateUser({name: '', age: 200, address: {city: ''}, tags: ['ok', 'too long']});
+            expect(user.isInvalid()).toBe(true);
+            if (user.isInvalid()) {
+                expect(user.errors.map(error => error.toString())).toEqual([
+                    'name: Name must not be blank',
+                    'age: Age is out of range',
+                    'address.city: City is required',
+                    'tags[1]: Tag is too long'
+                ]);
+                expect(user.errors[2]).toEqual(new FieldError('address.city', 'City is required'));
+            }
+        });
+    });
+});